@@ -8,6 +8,7 @@
  * @module
  */
 
+import type * as counters from "../counters.js";
 import type * as http from "../http.js";
 import type * as items from "../items.js";
 import type * as users from "../users.js";
@@ -19,6 +20,7 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  counters: typeof counters;
   http: typeof http;
   items: typeof items;
   users: typeof users;
@@ -0,0 +1,135 @@
+/**
+ * Sharded Item Counters
+ *
+ * Item counts are maintained in the counters table rather than computed with
+ * collect(), which reads every document and fails past Convex's read limits.
+ * Each count is spread over NUM_SHARDS documents: a write adjusts one random
+ * shard, so concurrent writers rarely conflict on the same document, and a
+ * read sums the shards. Counters are updated in the same transaction as the
+ * item write, so counts stay exact under concurrent writers.
+ *
+ * bumpCounter is the opposite on purpose: an unsharded counter for
+ * benchmarking write contention.
+ */
+
+import { v } from "convex/values";
+import type { Doc } from "./_generated/dataModel";
+import { mutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+
+// More shards = fewer write conflicts, slightly more reads per count
+const NUM_SHARDS = 16;
+
+/**
+ * Counter keys for each count an item contributes to.
+ */
+export const counterKeys = {
+  total: "items",
+  status: (status: string) => `items:status:${status}`,
+  project: (projectId: number) => `items:project:${projectId}`,
+};
+
+/**
+ * Pending counter changes, keyed by counter key.
+ */
+export type CountDeltas = Map<string, number>;
+
+/**
+ * Add an item's contribution (delta = 1 for an insert, -1 for a delete) to
+ * pending counter changes.
+ */
+export function addItemToDeltas(
+  deltas: CountDeltas,
+  item: Pick<Doc<"items">, "status" | "projectId">,
+  delta: number
+): void {
+  const keys = [counterKeys.total, counterKeys.status(item.status)];
+  if (item.projectId !== undefined) keys.push(counterKeys.project(item.projectId));
+  for (const key of keys) {
+    deltas.set(key, (deltas.get(key) ?? 0) + delta);
+  }
+}
+
+/**
+ * Apply pending counter changes, each to one random shard of its counter.
+ */
+export async function applyCountDeltas(ctx: MutationCtx, deltas: CountDeltas): Promise<void> {
+  for (const [key, delta] of deltas) {
+    if (delta === 0) continue;
+    const shard = Math.floor(Math.random() * NUM_SHARDS);
+    const existing = await ctx.db
+      .query("counters")
+      .withIndex("by_key_shard", (q) => q.eq("key", key).eq("shard", shard))
+      .unique();
+    if (existing) {
+      await ctx.db.patch("counters", existing._id, { count: existing.count + delta });
+    } else {
+      await ctx.db.insert("counters", { key, shard, count: delta });
+    }
+  }
+}
+
+/**
+ * Adjust every count an item contributes to (delta = 1 for an insert, -1 for a delete).
+ */
+export async function adjustItemCounts(
+  ctx: MutationCtx,
+  item: Pick<Doc<"items">, "status" | "projectId">,
+  delta: number
+): Promise<void> {
+  const deltas: CountDeltas = new Map();
+  addItemToDeltas(deltas, item, delta);
+  await applyCountDeltas(ctx, deltas);
+}
+
+/**
+ * Current value of a counter (the sum of its shards).
+ */
+export async function readCount(ctx: QueryCtx, key: string): Promise<number> {
+  const shards = await ctx.db
+    .query("counters")
+    .withIndex("by_key_shard", (q) => q.eq("key", key))
+    .take(NUM_SHARDS);
+  return shards.reduce((sum, shard) => sum + shard.count, 0);
+}
+
+/**
+ * Delete up to `limit` item counter documents, e.g. once the items table is
+ * empty. Other counters (bumpCounter's) are kept.
+ *
+ * @returns Whether item counter documents remain
+ */
+export async function resetCounts(ctx: MutationCtx, limit: number): Promise<boolean> {
+  // Every item counter key is "items" or starts with "items:"
+  const counters = await ctx.db
+    .query("counters")
+    .withIndex("by_key_shard", (q) => q.gte("key", counterKeys.total).lt("key", `${counterKeys.total};`))
+    .take(limit);
+  for (const counter of counters) {
+    await ctx.db.delete("counters", counter._id);
+  }
+  return counters.length === limit;
+}
+
+/**
+ * Increment a single-document counter and return its new value.
+ * Deliberately unsharded: every call for a key writes the same document,
+ * so concurrent callers conflict (used by the hotspot behavior).
+ */
+export const bumpCounter = mutation({
+  args: {
+    key: v.string(),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    const counter = await ctx.db
+      .query("counters")
+      .withIndex("by_key_shard", (q) => q.eq("key", args.key).eq("shard", 0))
+      .unique();
+    if (counter) {
+      await ctx.db.patch("counters", counter._id, { count: counter.count + 1 });
+      return counter.count + 1;
+    }
+    await ctx.db.insert("counters", { key: args.key, shard: 0, count: 1 });
+    return 1;
+  },
+});
@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convexTest } from "convex-test";
+import schema from "./schema";
+import { api } from "./_generated/api";
+
+const modules = {
+  "./_generated/api.js": () => import("./_generated/api.js"),
+  "./counters.ts": () => import("./counters"),
+  "./items.ts": () => import("./items"),
+  "./users.ts": () => import("./users"),
+};
+
+const POSITIONS = Array.from({ length: 201 }, (_, i) => i / 200);
+
+describe("getRandomItem", () => {
+  it("samples every item of a createItems batch", async () => {
+    const t = convexTest(schema, modules);
+    const ids = await t.mutation(api.items.createItems, {
+      items: Array.from({ length: 10 }, (_, i) => ({ title: `Item ${i}` })),
+    });
+
+    const sampled = new Set<string>();
+    for (const position of POSITIONS) {
+      const item = await t.query(api.items.getRandomItem, { position });
+      assert.ok(item);
+      sampled.add(item._id);
+    }
+    assert.deepEqual([...sampled].sort(), [...ids].sort());
+  });
+
+  it("samples every item of a batch by status", async () => {
+    const t = convexTest(schema, modules);
+    const ids = await t.mutation(api.items.createItems, {
+      items: Array.from({ length: 10 }, (_, i) => ({ title: `Item ${i}`, status: "active" })),
+    });
+    await t.mutation(api.items.createItems, { items: [{ title: "Other", status: "done" }] });
+
+    const sampled = new Set<string>();
+    for (const position of POSITIONS) {
+      const item = await t.query(api.items.getRandomItem, { status: "active", position });
+      assert.ok(item);
+      assert.equal(item.status, "active");
+      sampled.add(item._id);
+    }
+    assert.deepEqual([...sampled].sort(), [...ids].sort());
+  });
+
+  it("picks the same item for the same position", async () => {
+    const t = convexTest(schema, modules);
+    await t.mutation(api.items.createItems, {
+      items: Array.from({ length: 5 }, (_, i) => ({ title: `Item ${i}` })),
+    });
+    const a = await t.query(api.items.getRandomItem, { position: 0.37 });
+    const b = await t.query(api.items.getRandomItem, { position: 0.37 });
+    assert.equal(a?._id, b?._id);
+  });
+
+  it("returns null when there are no items", async () => {
+    const t = convexTest(schema, modules);
+    assert.equal(await t.query(api.items.getRandomItem, { position: 0.5 }), null);
+    assert.equal(await t.query(api.items.getRandomItem, { status: "active", position: 0.5 }), null);
+  });
+});
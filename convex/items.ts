@@ -1,9 +1,38 @@
 import { v } from "convex/values";
+import { paginationOptsValidator, paginationResultValidator } from "convex/server";
 import { mutation, query } from "./_generated/server";
+import {
+  addItemToDeltas,
+  adjustItemCounts,
+  applyCountDeltas,
+  counterKeys,
+  readCount,
+  resetCounts,
+  type CountDeltas,
+} from "./counters";
 
 // Valid status values
 const VALID_STATUSES = ["pending", "active", "completed"] as const;
 
+// Correlation id + client send time, echoed back to subscribers to measure propagation
+const stampValidator = v.object({ id: v.string(), sentAt: v.number() });
+
+// An items document as returned by queries
+const itemDocValidator = v.object({
+  _id: v.id("items"),
+  _creationTime: v.number(),
+  title: v.string(),
+  description: v.optional(v.string()),
+  status: v.string(),
+  priority: v.number(),
+  ownerId: v.optional(v.id("users")),
+  tags: v.array(v.string()),
+  projectId: v.optional(v.number()),
+  stamp: v.optional(stampValidator),
+  createdAt: v.number(),
+  updatedAt: v.number(),
+});
+
 /**
  * Create a new item.
  */
@@ -16,21 +45,26 @@ export const createItem = mutation({
     ownerId: v.optional(v.id("users")),
     tags: v.optional(v.array(v.string())),
     projectId: v.optional(v.number()),
+    stamp: v.optional(stampValidator),
   },
   returns: v.id("items"),
   handler: async (ctx, args) => {
     const now = Date.now();
-    return await ctx.db.insert("items", {
+    const status = args.status ?? "pending";
+    const id = await ctx.db.insert("items", {
       title: args.title,
       description: args.description,
-      status: args.status ?? "pending",
+      status,
       priority: args.priority ?? 3,
       ownerId: args.ownerId,
       tags: args.tags ?? [],
       projectId: args.projectId,
+      stamp: args.stamp,
       createdAt: now,
       updatedAt: now,
     });
+    await adjustItemCounts(ctx, { status, projectId: args.projectId }, 1);
+    return id;
   },
 });
 
@@ -49,6 +83,7 @@ export const createItems = mutation({
         ownerId: v.optional(v.id("users")),
         tags: v.optional(v.array(v.string())),
         projectId: v.optional(v.number()),
+        stamp: v.optional(stampValidator),
       })
     ),
   },
@@ -56,22 +91,27 @@ export const createItems = mutation({
   handler: async (ctx, args) => {
     const now = Date.now();
     const ids: string[] = [];
+    const deltas: CountDeltas = new Map();
 
     for (const item of args.items) {
+      const status = item.status ?? "pending";
       const id = await ctx.db.insert("items", {
         title: item.title,
         description: item.description,
-        status: item.status ?? "pending",
+        status,
         priority: item.priority ?? 3,
         ownerId: item.ownerId,
         tags: item.tags ?? [],
         projectId: item.projectId,
+        stamp: item.stamp,
         createdAt: now,
         updatedAt: now,
       });
       ids.push(id);
+      addItemToDeltas(deltas, { status, projectId: item.projectId }, 1);
     }
 
+    await applyCountDeltas(ctx, deltas);
     return ids as any;
   },
 });
@@ -88,6 +128,7 @@ export const updateItem = mutation({
     priority: v.optional(v.number()),
     ownerId: v.optional(v.union(v.id("users"), v.null())),
     tags: v.optional(v.array(v.string())),
+    stamp: v.optional(stampValidator),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -106,8 +147,17 @@ export const updateItem = mutation({
     if (updates.priority !== undefined) patch.priority = updates.priority;
     if (updates.ownerId !== undefined) patch.ownerId = updates.ownerId;
     if (updates.tags !== undefined) patch.tags = updates.tags;
+    if (updates.stamp !== undefined) patch.stamp = updates.stamp;
 
     await ctx.db.patch(id, patch);
+
+    // Move the item between status counts; total and project counts are unchanged
+    if (updates.status !== undefined && updates.status !== item.status) {
+      const deltas: CountDeltas = new Map();
+      addItemToDeltas(deltas, item, -1);
+      addItemToDeltas(deltas, { ...item, status: updates.status }, 1);
+      await applyCountDeltas(ctx, deltas);
+    }
     return null;
   },
 });
@@ -121,7 +171,12 @@ export const deleteItem = mutation({
   },
   returns: v.null(),
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.id);
+    const item = await ctx.db.get("items", args.id);
+    if (!item) {
+      throw new Error("Item not found");
+    }
+    await ctx.db.delete("items", args.id);
+    await adjustItemCounts(ctx, item, -1);
     return null;
   },
 });
@@ -133,22 +188,7 @@ export const getItem = query({
   args: {
     id: v.id("items"),
   },
-  returns: v.union(
-    v.object({
-      _id: v.id("items"),
-      _creationTime: v.number(),
-      title: v.string(),
-      description: v.optional(v.string()),
-      status: v.string(),
-      priority: v.number(),
-      ownerId: v.optional(v.id("users")),
-      tags: v.array(v.string()),
-      projectId: v.optional(v.number()),
-      createdAt: v.number(),
-      updatedAt: v.number(),
-    }),
-    v.null()
-  ),
+  returns: v.union(itemDocValidator, v.null()),
   handler: async (ctx, args) => {
     return await ctx.db.get(args.id);
   },
@@ -163,21 +203,7 @@ export const listItems = query({
     projectId: v.optional(v.number()),
     limit: v.optional(v.number()),
   },
-  returns: v.array(
-    v.object({
-      _id: v.id("items"),
-      _creationTime: v.number(),
-      title: v.string(),
-      description: v.optional(v.string()),
-      status: v.string(),
-      priority: v.number(),
-      ownerId: v.optional(v.id("users")),
-      tags: v.array(v.string()),
-      projectId: v.optional(v.number()),
-      createdAt: v.number(),
-      updatedAt: v.number(),
-    })
-  ),
+  returns: v.array(itemDocValidator),
   handler: async (ctx, args) => {
     const limit = args.limit ?? 100;
 
@@ -213,21 +239,7 @@ export const listByPriority = query({
     priority: v.number(),
     limit: v.optional(v.number()),
   },
-  returns: v.array(
-    v.object({
-      _id: v.id("items"),
-      _creationTime: v.number(),
-      title: v.string(),
-      description: v.optional(v.string()),
-      status: v.string(),
-      priority: v.number(),
-      ownerId: v.optional(v.id("users")),
-      tags: v.array(v.string()),
-      projectId: v.optional(v.number()),
-      createdAt: v.number(),
-      updatedAt: v.number(),
-    })
-  ),
+  returns: v.array(itemDocValidator),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("items")
@@ -245,21 +257,7 @@ export const listByOwner = query({
     ownerId: v.id("users"),
     limit: v.optional(v.number()),
   },
-  returns: v.array(
-    v.object({
-      _id: v.id("items"),
-      _creationTime: v.number(),
-      title: v.string(),
-      description: v.optional(v.string()),
-      status: v.string(),
-      priority: v.number(),
-      ownerId: v.optional(v.id("users")),
-      tags: v.array(v.string()),
-      projectId: v.optional(v.number()),
-      createdAt: v.number(),
-      updatedAt: v.number(),
-    })
-  ),
+  returns: v.array(itemDocValidator),
   handler: async (ctx, args) => {
     return await ctx.db
       .query("items")
@@ -270,30 +268,105 @@ export const listByOwner = query({
 });
 
 /**
- * Get item count (useful for dashboard stats).
+ * One page of items, newest first. Same filters and indexes as listItems;
+ * pass the previous page's continueCursor to read the next one.
  */
-export const getItemCount = query({
+export const listItemsPage = query({
   args: {
+    paginationOpts: paginationOptsValidator,
     status: v.optional(v.string()),
+    projectId: v.optional(v.number()),
   },
-  returns: v.number(),
+  returns: paginationResultValidator(itemDocValidator),
   handler: async (ctx, args) => {
+    if (args.projectId !== undefined) {
+      return await ctx.db
+        .query("items")
+        .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+
     if (args.status) {
-      const items = await ctx.db
+      return await ctx.db
         .query("items")
         .withIndex("by_status", (q) => q.eq("status", args.status!))
-        .collect();
-      return items.length;
+        .order("desc")
+        .paginate(args.paginationOpts);
     }
 
-    const items = await ctx.db.query("items").collect();
-    return items.length;
+    return await ctx.db
+      .query("items")
+      .withIndex("by_createdAt")
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * One page of items with a given priority (paginated listByPriority).
+ */
+export const listByPriorityPage = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    priority: v.number(),
+  },
+  returns: paginationResultValidator(itemDocValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("items")
+      .withIndex("by_priority", (q) => q.eq("priority", args.priority))
+      .order("desc")
+      .paginate(args.paginationOpts);
   },
 });
 
 /**
- * Clear all items from the database.
- * Used as a setup script to ensure a clean slate before each test run.
+ * One page of items owned by a user (paginated listByOwner).
+ */
+export const listByOwnerPage = query({
+  args: {
+    paginationOpts: paginationOptsValidator,
+    ownerId: v.id("users"),
+  },
+  returns: paginationResultValidator(itemDocValidator),
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("items")
+      .withIndex("by_owner", (q) => q.eq("ownerId", args.ownerId))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Get item count (useful for dashboard stats), by status or by project.
+ * Reads the sharded counters instead of scanning items.
+ */
+export const getItemCount = query({
+  args: {
+    status: v.optional(v.string()),
+    projectId: v.optional(v.number()),
+  },
+  returns: v.number(),
+  handler: async (ctx, args) => {
+    if (args.status && args.projectId !== undefined) {
+      throw new Error("Count by status or by project, not both");
+    }
+    if (args.status) {
+      return await readCount(ctx, counterKeys.status(args.status));
+    }
+    if (args.projectId !== undefined) {
+      return await readCount(ctx, counterKeys.project(args.projectId));
+    }
+    return await readCount(ctx, counterKeys.total);
+  },
+});
+
+/**
+ * Clear all items from the database, one batch per call; call again while
+ * hasMore. Once the items are gone, the item counters are reset in batches
+ * too. Used as a setup script to ensure a clean slate before each test run.
  */
 export const clearAll = mutation({
   args: {},
@@ -301,54 +374,97 @@ export const clearAll = mutation({
   handler: async (ctx) => {
     const batchSize = 4000;
     const items = await ctx.db.query("items").take(batchSize);
+    const deltas: CountDeltas = new Map();
     for (const item of items) {
       await ctx.db.delete(item._id);
+      addItemToDeltas(deltas, item, -1);
     }
     const deleted = items.length;
+    let hasMore = deleted === batchSize;
+    if (hasMore) {
+      await applyCountDeltas(ctx, deltas);
+    } else {
+      // Table is empty: start counters from scratch (also drops counts for
+      // items that predate the counters table)
+      hasMore = await resetCounts(ctx, batchSize - deleted);
+    }
     console.log(`[Setup] Cleared ${deleted} items`);
-    return { deleted, hasMore: deleted === batchSize };
+    return { deleted, hasMore };
   },
 });
 
+/** Most items sharing one index key (e.g. a createItems batch) sampled among */
+const MAX_TIED_ITEMS = 100;
+
+/**
+ * Multiplier that turns a position into an independent one for picking among
+ * tied items (the position's lower digits)
+ */
+const TIE_BREAK_SCALE = 9973;
+
+/**
+ * Pick one of the items that share the sampled key, in index order.
+ */
+function pickTied<T>(tied: T[], position: number): T | null {
+  if (tied.length === 0) return null;
+  const within = (position * TIE_BREAK_SCALE) % 1;
+  return tied[Math.min(Math.floor(within * tied.length), tied.length - 1)];
+}
+
 /**
  * Get a random item (useful for behaviors that need to pick items to update).
+ *
+ * Picks the point `position` (0-1, e.g. ctx.random.next()) of the way between
+ * the oldest and newest index key and takes the first key at or after it, so
+ * it reads a few documents instead of the whole table and the same position
+ * always picks the same item. Items that follow a long gap in creation (or,
+ * by status, update) time are picked more often than others.
+ *
+ * Every item of a createItems batch has the same createdAt and updatedAt, so
+ * the item is picked among those sharing the key (up to MAX_TIED_ITEMS);
+ * otherwise only the first item of each batch could ever be returned.
  */
 export const getRandomItem = query({
   args: {
     status: v.optional(v.string()),
+    position: v.number(),
   },
-  returns: v.union(
-    v.object({
-      _id: v.id("items"),
-      _creationTime: v.number(),
-      title: v.string(),
-      description: v.optional(v.string()),
-      status: v.string(),
-      priority: v.number(),
-      ownerId: v.optional(v.id("users")),
-      tags: v.array(v.string()),
-      projectId: v.optional(v.number()),
-      createdAt: v.number(),
-      updatedAt: v.number(),
-    }),
-    v.null()
-  ),
+  returns: v.union(itemDocValidator, v.null()),
   handler: async (ctx, args) => {
-    let items;
-    if (args.status) {
-      items = await ctx.db
+    const { status } = args;
+    const position = Math.min(Math.max(args.position, 0), 1);
+    if (status) {
+      const byStatus = () =>
+        ctx.db.query("items").withIndex("by_status", (q) => q.eq("status", status));
+      const first = await byStatus().order("asc").first();
+      const last = await byStatus().order("desc").first();
+      if (!first || !last) return null;
+      const point = first.updatedAt + position * (last.updatedAt - first.updatedAt);
+      const sample =
+        (await ctx.db
+          .query("items")
+          .withIndex("by_status", (q) => q.eq("status", status).gte("updatedAt", point))
+          .first()) ?? last;
+      const tied = await ctx.db
         .query("items")
-        .withIndex("by_status", (q) => q.eq("status", args.status!))
-        .collect();
-    } else {
-      items = await ctx.db.query("items").collect();
+        .withIndex("by_status", (q) => q.eq("status", status).eq("updatedAt", sample.updatedAt))
+        .take(MAX_TIED_ITEMS);
+      return pickTied(tied, position) ?? sample;
     }
 
-    if (items.length === 0) return null;
-
-    // Simple random selection - for true randomness in behaviors,
-    // use the seeded random from context
-    const randomIndex = Math.floor(Math.random() * items.length);
-    return items[randomIndex];
+    const first = await ctx.db.query("items").withIndex("by_createdAt").order("asc").first();
+    const last = await ctx.db.query("items").withIndex("by_createdAt").order("desc").first();
+    if (!first || !last) return null;
+    const point = first.createdAt + position * (last.createdAt - first.createdAt);
+    const sample =
+      (await ctx.db
+        .query("items")
+        .withIndex("by_createdAt", (q) => q.gte("createdAt", point))
+        .first()) ?? last;
+    const tied = await ctx.db
+      .query("items")
+      .withIndex("by_createdAt", (q) => q.eq("createdAt", sample.createdAt))
+      .take(MAX_TIED_ITEMS);
+    return pickTied(tied, position) ?? sample;
   },
 });
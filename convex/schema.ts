@@ -24,6 +24,8 @@ export default defineSchema({
     ownerId: v.optional(v.id("users")),
     tags: v.array(v.string()),
     projectId: v.optional(v.number()),
+    // Correlation stamp of the last stamped write, for propagation latency
+    stamp: v.optional(v.object({ id: v.string(), sentAt: v.number() })),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -32,4 +34,15 @@ export default defineSchema({
     .index("by_priority", ["priority", "updatedAt"])
     .index("by_createdAt", ["createdAt"])
     .index("by_project", ["projectId", "createdAt"]),
+
+  /**
+   * Counters table - sharded item counts (total, per status, per project)
+   * plus the unsharded hotspot counters. A count is the sum of its shards;
+   * see counters.ts.
+   */
+  counters: defineTable({
+    key: v.string(), // "items", "items:status:<status>", "items:project:<projectId>" or "hotspot:<n>"
+    shard: v.number(),
+    count: v.number(),
+  }).index("by_key_shard", ["key", "shard"]),
 });
@@ -0,0 +1,138 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SeededRandom } from "./SeededRandom";
+import type { SeededRandomState } from "./types";
+
+const N = 20_000;
+
+function draws(n: number, draw: (random: SeededRandom) => number, seed = 42): number[] {
+  const random = new SeededRandom(seed);
+  return Array.from({ length: n }, () => draw(random));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function counts(values: number[], size: number): number[] {
+  const result = Array<number>(size).fill(0);
+  for (const v of values) result[v]++;
+  return result;
+}
+
+describe("SeededRandom distributions", () => {
+  it("gives the same values for the same seed", () => {
+    const sequence = (random: SeededRandom) => [
+      random.zipf(100, 1.1),
+      random.gaussian(10, 2),
+      random.exponential(0.5),
+      random.weightedPick(["a", "b", "c"], [1, 2, 3]),
+      ...random.sample([1, 2, 3, 4, 5], 3),
+    ];
+    assert.deepEqual(sequence(new SeededRandom(7)), sequence(new SeededRandom(7)));
+    assert.notDeepEqual(sequence(new SeededRandom(7)), sequence(new SeededRandom(8)));
+  });
+
+  it("zipf favours low ranks by 1/k^s", () => {
+    const ranks = counts(draws(N, (r) => r.zipf(10, 1)), 10);
+    // P(0) / P(1) = 2 and P(0) / P(9) = 10 for s = 1
+    assert.ok(Math.abs(ranks[0] / ranks[1] - 2) < 0.2, `${ranks[0] / ranks[1]}`);
+    assert.ok(Math.abs(ranks[0] / ranks[9] - 10) < 2, `${ranks[0] / ranks[9]}`);
+
+    const uniform = counts(draws(N, (r) => r.zipf(4, 0)), 4);
+    assert.ok(uniform.every((c) => Math.abs(c - N / 4) < N * 0.02), uniform.join(", "));
+  });
+
+  it("gaussian has the requested mean and standard deviation", () => {
+    const values = draws(N, (r) => r.gaussian(100, 15));
+    const m = mean(values);
+    const sd = Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+    assert.ok(Math.abs(m - 100) < 0.5, `mean ${m}`);
+    assert.ok(Math.abs(sd - 15) < 0.5, `sd ${sd}`);
+  });
+
+  it("exponential has mean 1 / rate and no negative values", () => {
+    const values = draws(N, (r) => r.exponential(0.1));
+    assert.ok(Math.abs(mean(values) - 10) < 0.3, `mean ${mean(values)}`);
+    assert.ok(values.every((v) => v >= 0 && Number.isFinite(v)));
+  });
+
+  it("weightedPick follows the weights and never picks zero weights", () => {
+    const picks = counts(draws(N, (r) => r.weightedPick([0, 1, 2, 3], [1, 0, 3, 0])), 4);
+    assert.equal(picks[1], 0);
+    assert.equal(picks[3], 0);
+    assert.ok(Math.abs(picks[2] / N - 0.75) < 0.02, picks.join(", "));
+  });
+
+  it("sample returns k distinct items", () => {
+    const random = new SeededRandom(3);
+    for (let i = 0; i < 100; i++) {
+      const picked = random.sample([1, 2, 3, 4, 5, 6], 4);
+      assert.equal(new Set(picked).size, 4);
+      assert.ok(picked.every((v) => v >= 1 && v <= 6));
+    }
+    assert.deepEqual(random.sample([1, 2], 0), []);
+  });
+
+  it("rejects invalid parameters", () => {
+    const random = new SeededRandom(1);
+    assert.throws(() => random.zipf(0, 1), /Invalid zipf size/);
+    assert.throws(() => random.zipf(10, -1), /Invalid zipf exponent/);
+    assert.throws(() => random.exponential(0), /Invalid exponential rate/);
+    assert.throws(() => random.weightedPick([], []), /empty array/);
+    assert.throws(() => random.weightedPick([1, 2], [1]), /Expected 2 weights/);
+    assert.throws(() => random.weightedPick([1, 2], [1, -1]), /non-negative/);
+    assert.throws(() => random.weightedPick([1, 2], [0, 0]), /must be positive/);
+    assert.throws(() => random.sample([1, 2], 3), /Cannot sample 3 items/);
+  });
+});
+
+describe("SeededRandom streams", () => {
+  const take = (random: SeededRandom, n = 5) => Array.from({ length: n }, () => random.next());
+
+  it("forks the same labelled stream regardless of draws on the parent", () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    take(b, 100);
+    assert.deepEqual(take(a.fork("users")), take(b.fork("users")));
+  });
+
+  it("leaves the parent stream untouched when forking", () => {
+    const a = new SeededRandom(42);
+    const b = new SeededRandom(42);
+    a.fork("users");
+    assert.deepEqual(take(a), take(b));
+  });
+
+  it("gives different labels and seeds unrelated streams", () => {
+    const random = new SeededRandom(42);
+    assert.notDeepEqual(take(random.fork("users")), take(random.fork("items")));
+    assert.notDeepEqual(take(random.fork("users")), take(new SeededRandom(43).fork("users")));
+    assert.notDeepEqual(take(random.fork("users")), take(new SeededRandom(42)));
+  });
+
+  it("resumes from a saved state, including its forks", () => {
+    const random = new SeededRandom(42);
+    take(random, 10);
+    const saved = JSON.parse(JSON.stringify(random.getState())) as SeededRandomState;
+    const expected = take(random);
+    const expectedFork = take(random.fork("users"));
+
+    const resumed = new SeededRandom(1);
+    resumed.setState(saved);
+    assert.deepEqual(take(resumed), expected);
+    assert.deepEqual(take(resumed.fork("users")), expectedFork);
+  });
+
+  it("rejects invalid states", () => {
+    const random = new SeededRandom(42);
+    for (const state of [
+      { seed: -1, state: 0 },
+      { seed: 0, state: 1.5 },
+      { seed: 0, state: 2 ** 32 },
+      { seed: 0 } as unknown as SeededRandomState,
+    ]) {
+      assert.throws(() => random.setState(state), /Invalid random state/, JSON.stringify(state));
+    }
+  });
+});
@@ -1,32 +1,71 @@
-import type { ISeededRandom } from "./types";
+import type { ISeededRandom, SeededRandomState } from "./types";
 
 /**
- * Mulberry32 PRNG - simple, fast, and deterministic
+ * Advance a Mulberry32 state - simple, fast, and deterministic
  * https://github.com/bryc/code/blob/master/jshash/PRNGs.md
+ * @returns The next state and a float in [0, 1)
  */
-function mulberry32(initialSeed: number): () => number {
-  let seed = initialSeed;
-  return function () {
-    seed += 0x6d2b79f5;
-    let t = seed;
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
+function mulberry32(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [next, ((t ^ (t >>> 14)) >>> 0) / 4294967296];
 }
 
 /**
- * Seeded random number generator class
+ * FNV-1a hash of a fork label.
+ */
+function hashLabel(label: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < label.length; i++) {
+    h = Math.imul(h ^ label.charCodeAt(i), 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function isUint32(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+}
+
+/**
+ * Seeded random number generator class.
+ * Every method draws only from the seeded stream, so the same seed and the
+ * same sequence of calls always give the same values.
  */
 export class SeededRandom implements ISeededRandom {
-  private nextRandom: () => number;
+  /** Seed the stream started from; forks derive from it */
+  private seed: number;
+  /** Mulberry32 state, advanced by every draw */
+  private state: number;
+  /** Zipf cumulative distributions by "n:s", built on first use */
+  private zipfCdfs = new Map<string, number[]>();
 
   constructor(seed: number) {
-    this.nextRandom = mulberry32(seed);
+    this.seed = seed >>> 0;
+    this.state = this.seed;
   }
 
   next(): number {
-    return this.nextRandom();
+    const [state, value] = mulberry32(this.state);
+    this.state = state;
+    return value;
+  }
+
+  fork(label: string): SeededRandom {
+    return new SeededRandom(deriveSeed(this.seed, hashLabel(label)));
+  }
+
+  getState(): SeededRandomState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  setState(state: SeededRandomState): void {
+    if (!isUint32(state.seed) || !isUint32(state.state)) {
+      throw new Error(`Invalid random state: ${JSON.stringify(state)}`);
+    }
+    this.seed = state.seed;
+    this.state = state.state;
   }
 
   int(min: number, max: number): number {
@@ -52,6 +91,111 @@ export class SeededRandom implements ISeededRandom {
     }
     return array;
   }
+
+  bool(p = 0.5): boolean {
+    return this.next() < p;
+  }
+
+  zipf(n: number, s: number): number {
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`Invalid zipf size: ${n}`);
+    }
+    if (!(s >= 0)) {
+      throw new Error(`Invalid zipf exponent: ${s}`);
+    }
+    const key = `${n}:${s}`;
+    let cdf = this.zipfCdfs.get(key);
+    if (!cdf) {
+      const weights = Array.from({ length: n }, (_, k) => 1 / Math.pow(k + 1, s));
+      cdf = cumulative(weights);
+      this.zipfCdfs.set(key, cdf);
+    }
+    return searchCdf(cdf, this.next());
+  }
+
+  gaussian(mean = 0, sd = 1): number {
+    // Box-Muller transform; 1 - next() keeps the log argument in (0, 1]
+    const u = 1 - this.next();
+    const v = this.next();
+    return mean + sd * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  exponential(rate: number): number {
+    if (!(rate > 0)) {
+      throw new Error(`Invalid exponential rate: ${rate}`);
+    }
+    return -Math.log(1 - this.next()) / rate;
+  }
+
+  weightedPick<T>(items: T[], weights: number[]): T {
+    if (items.length === 0) {
+      throw new Error("Cannot pick from empty array");
+    }
+    if (weights.length !== items.length) {
+      throw new Error(`Expected ${items.length} weights, got ${weights.length}`);
+    }
+    if (weights.some((w) => !(w >= 0) || !Number.isFinite(w))) {
+      throw new Error("Weights must be finite and non-negative");
+    }
+    const cdf = cumulative(weights);
+    if (!(cdf[cdf.length - 1] > 0)) {
+      throw new Error("At least one weight must be positive");
+    }
+    return items[searchCdf(cdf, this.next())];
+  }
+
+  sample<T>(array: T[], k: number): T[] {
+    if (!Number.isInteger(k) || k < 0 || k > array.length) {
+      throw new Error(`Cannot sample ${k} items from ${array.length}`);
+    }
+    // Partial Fisher-Yates on a copy
+    const copy = [...array];
+    for (let i = 0; i < k; i++) {
+      const j = this.int(i, copy.length);
+      [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy.slice(0, k);
+  }
+}
+
+/**
+ * Normalized running totals of non-negative weights (last entry is 1,
+ * or 0 when every weight is 0).
+ */
+function cumulative(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let running = 0;
+  return weights.map((w) => {
+    running += w;
+    return total > 0 ? running / total : 0;
+  });
+}
+
+/**
+ * Index of the first entry of a cumulative distribution above u, skipping
+ * zero-weight entries.
+ */
+function searchCdf(cdf: number[], u: number): number {
+  let lo = 0;
+  let hi = cdf.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (u < cdf[mid]) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/**
+ * Derive a per-worker seed from a base seed.
+ * Mixes the worker id through a murmur3-style finalizer so neighbouring
+ * workers get unrelated streams instead of shifted copies of each other.
+ */
+export function deriveSeed(baseSeed: number, workerId: number): number {
+  let h = (baseSeed ^ Math.imul(workerId + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
 }
 
 /**
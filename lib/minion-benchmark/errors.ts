@@ -0,0 +1,44 @@
+/**
+ * Error Classification
+ *
+ * Convex retries a mutation whose reads were changed by a concurrent write
+ * (optimistic concurrency control). When the retries run out the call fails
+ * with a write conflict, which says the workload is contended rather than
+ * that something is broken, so conflicts are counted apart from other errors.
+ */
+
+const WRITE_CONFLICT_PATTERN =
+  /changed while this mutation was being run|OptimisticConcurrencyControlFailure/i;
+
+// Document ids in conflict messages, e.g. `document with ID "k57abc..."`
+const DOCUMENT_ID_PATTERN = /(ID\s+)"[^"]*"/g;
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * True when an error (or error message) is a Convex write conflict.
+ */
+export function isWriteConflict(error: unknown): boolean {
+  return WRITE_CONFLICT_PATTERN.test(messageOf(error));
+}
+
+/**
+ * Error message for grouping: write conflicts lose their per-call document
+ * ids so they all group together; other messages are returned unchanged.
+ */
+export function normalizeErrorMessage(message: string): string {
+  return isWriteConflict(message) ? message.replace(DOCUMENT_ID_PATTERN, '$1"…"') : message;
+}
+
+/**
+ * Number of write conflicts in an error-message tally (e.g. MetricsSnapshot.errorMessages).
+ */
+export function countWriteConflicts(errorMessages: Record<string, number>): number {
+  let conflicts = 0;
+  for (const [message, count] of Object.entries(errorMessages)) {
+    if (isWriteConflict(message)) conflicts += count;
+  }
+  return conflicts;
+}
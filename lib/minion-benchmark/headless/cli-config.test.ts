@@ -0,0 +1,112 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import {
+  collectConfigFlags,
+  configFlagName,
+  configFlagOptions,
+  configFromFlags,
+  formatConfigHelp,
+  parseRunFile,
+} from "./cli-config";
+
+const behaviors = {
+  writer: {
+    name: "Writer",
+    description: "Creates items",
+    configSchema: z.object({
+      batchSize: z.number().min(1).max(100).default(10).describe("Items per batch"),
+      dryRun: z.boolean().default(false).describe("Skip writes"),
+      tags: z.array(z.string()).default([]).describe("Tags to add"),
+      mode: z.enum(["fast", "slow"]).default("fast").describe("Write mode"),
+    }),
+  },
+  reader: {
+    name: "Reader",
+    description: "Reads items",
+    configSchema: z.object({
+      batchSize: z.string().default("all").describe("Page size or all"),
+      dryRun: z.boolean().default(false).describe("Skip reads"),
+    }),
+  },
+  idle: { name: "Idle", description: "Does nothing" },
+};
+
+describe("collectConfigFlags", () => {
+  it("derives kebab-case flags shared across behaviors", () => {
+    const flags = collectConfigFlags(behaviors);
+    assert.deepEqual([...flags.keys()], ["batch-size", "dry-run", "tags", "mode"]);
+    assert.deepEqual(Object.keys(flags.get("batch-size")!.fields), ["writer", "reader"]);
+    assert.equal(configFlagName("maxItemsPerPage"), "max-items-per-page");
+  });
+
+  it("rejects options that clash with runner flags", () => {
+    assert.throws(() => collectConfigFlags(behaviors, ["dry-run"]), /"dryRun" of Writer clashes with the --dry-run flag/);
+  });
+
+  it("declares boolean flags only when every behavior's option is boolean", () => {
+    const options = configFlagOptions(collectConfigFlags(behaviors));
+    assert.deepEqual(options, {
+      "batch-size": { type: "string" },
+      "dry-run": { type: "boolean" },
+      tags: { type: "string" },
+      mode: { type: "string" },
+    });
+  });
+});
+
+describe("configFromFlags", () => {
+  const flags = collectConfigFlags(behaviors);
+  const parse = (args: string[]) => parseArgs({ args, options: configFlagOptions(flags), strict: true }).values;
+
+  it("converts values to the selected behavior's option types", () => {
+    const values = parse(["--batch-size", "25", "--dry-run", "--tags", '["a","b"]', "--mode", "slow"]);
+    assert.deepEqual(configFromFlags(values, flags, "writer"), {
+      batchSize: 25,
+      dryRun: true,
+      tags: ["a", "b"],
+      mode: "slow",
+    });
+    assert.deepEqual(configFromFlags(parse(["--batch-size", "25"]), flags, "reader"), { batchSize: "25" });
+  });
+
+  it("leaves unconvertible values and foreign options for validation to report", () => {
+    const values = parse(["--batch-size", "lots", "--tags", "[oops", "--mode", "slow"]);
+    assert.deepEqual(configFromFlags(values, flags, "writer"), { batchSize: "lots", tags: "[oops", mode: "slow" });
+    assert.deepEqual(configFromFlags(values, flags, "reader"), { batchSize: "lots", tags: "[oops", mode: "slow" });
+    assert.deepEqual(configFromFlags(parse(["--batch-size", " "]), flags, "writer"), { batchSize: " " });
+  });
+
+  it("omits flags that weren't given", () => {
+    assert.deepEqual(configFromFlags(parse([]), flags, "writer"), {});
+  });
+});
+
+describe("formatConfigHelp", () => {
+  it("lists every behavior with its flags, types and constraints", () => {
+    const help = formatConfigHelp(behaviors);
+    const lines = help.split("\n");
+    assert.equal(lines[0], "  writer - Creates items");
+    assert.match(help, /--batch-size <number>\s+Items per batch \(1-100, default: 10\)/);
+    assert.match(help, /--dry-run\s+Skip writes \(default: false\)/);
+    assert.match(help, /--mode <string>\s+Write mode \(fast \| slow, default: "fast"\)/);
+    assert.match(help, / {2}idle - Does nothing\n {6}\(no options\)/);
+  });
+});
+
+describe("parseRunFile", () => {
+  it("parses JSON and YAML objects by extension", () => {
+    assert.deepEqual(parseRunFile("run.json", '{"behavior":"writer","workers":4}'), { behavior: "writer", workers: 4 });
+    assert.deepEqual(parseRunFile("run.yaml", "behavior: writer\nworkers: 4\n"), { behavior: "writer", workers: 4 });
+    assert.deepEqual(parseRunFile("RUN.YML", "slo:\n  - p99 < 250ms\n"), { slo: ["p99 < 250ms"] });
+  });
+
+  it("rejects invalid files and non-object contents", () => {
+    assert.throws(() => parseRunFile("run.json", "{"), /Invalid run file run.json:/);
+    assert.throws(() => parseRunFile("run.yaml", "key: [unclosed"), /Invalid run file run.yaml:/);
+    for (const text of ["[1, 2]", "null", "42"]) {
+      assert.throws(() => parseRunFile("run.json", text), /expected an object of options/, text);
+    }
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Command-Line Behavior Config
+ *
+ * Derives command-line flags from behaviors' config schemas, so every
+ * config option can be set as --kebab-case-name without the runner knowing
+ * about it, and formats them for --help. Also parses JSON / YAML run files.
+ */
+
+import { parse as parseYaml } from "yaml";
+import { extractConfigSchema, type ConfigFieldSchema } from "../schema-utils";
+import type { MinionBehavior } from "../types";
+
+/** The parts of a behavior these helpers read */
+type BehaviorInfo = Pick<MinionBehavior<never>, "name" | "description" | "configSchema">;
+
+/**
+ * A command-line flag for a config option. Behaviors with an option of the
+ * same name share its flag.
+ */
+export interface ConfigFlag {
+  /** Flag name without dashes, e.g. "batch-size" */
+  flag: string;
+  /** Config key, e.g. "batchSize" */
+  key: string;
+  /** The option as each behavior that has it declares it, by behavior key */
+  fields: Record<string, ConfigFieldSchema>;
+}
+
+/**
+ * Flag name for a config key: batchSize -> batch-size.
+ */
+export function configFlagName(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+}
+
+function configFields(behavior: BehaviorInfo): ConfigFieldSchema[] {
+  return behavior.configSchema ? extractConfigSchema(behavior.configSchema).fields : [];
+}
+
+/**
+ * Collect a flag for every config option of the given behaviors.
+ *
+ * @param reserved - The runner's own flag names; an option with one of these
+ *   names is an error, since it couldn't be set
+ * @returns Flags keyed by flag name
+ */
+export function collectConfigFlags(
+  behaviors: Record<string, BehaviorInfo>,
+  reserved: string[] = []
+): Map<string, ConfigFlag> {
+  const flags = new Map<string, ConfigFlag>();
+  for (const [behaviorKey, behavior] of Object.entries(behaviors)) {
+    for (const field of configFields(behavior)) {
+      const flag = configFlagName(field.name);
+      if (reserved.includes(flag)) {
+        throw new Error(`Config option "${field.name}" of ${behavior.name} clashes with the --${flag} flag`);
+      }
+      let entry = flags.get(flag);
+      if (!entry) {
+        entry = { flag, key: field.name, fields: {} };
+        flags.set(flag, entry);
+      }
+      entry.fields[behaviorKey] = field;
+    }
+  }
+  return flags;
+}
+
+/**
+ * parseArgs option definitions for config flags. Flags are strings unless
+ * every behavior declares the option as a boolean.
+ */
+export function configFlagOptions(
+  flags: Map<string, ConfigFlag>
+): Record<string, { type: "string" | "boolean" }> {
+  const options: Record<string, { type: "string" | "boolean" }> = {};
+  for (const { flag, fields } of flags.values()) {
+    const boolean = Object.values(fields).every((field) => field.type === "boolean");
+    options[flag] = { type: boolean ? "boolean" : "string" };
+  }
+  return options;
+}
+
+/**
+ * Convert a flag value to its option's type. Values that don't convert are
+ * returned unchanged, so schema validation reports them.
+ */
+function convertFlagValue(value: string | boolean, field: ConfigFieldSchema | undefined): unknown {
+  if (typeof value === "boolean" || !field) return value;
+  switch (field.type) {
+    case "number": {
+      const n = Number(value);
+      return value.trim() !== "" && Number.isFinite(n) ? n : value;
+    }
+    case "boolean":
+      return value === "true" ? true : value === "false" ? false : value;
+    case "array":
+    case "object":
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Raw config from parsed config flags, converted to the types the given
+ * behavior declares. Flags for options the behavior doesn't have are kept,
+ * so validation (parseBehaviorConfig) reports them as unknown options.
+ */
+export function configFromFlags(
+  values: Record<string, unknown>,
+  flags: Map<string, ConfigFlag>,
+  behaviorKey: string
+): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  for (const { flag, key, fields } of flags.values()) {
+    const value = values[flag];
+    if (typeof value === "string" || typeof value === "boolean") {
+      config[key] = convertFlagValue(value, fields[behaviorKey]);
+    }
+  }
+  return config;
+}
+
+function describeField(field: ConfigFieldSchema): string {
+  const details: string[] = [];
+  if (field.enum) details.push(field.enum.join(" | "));
+  if (field.minimum !== undefined && field.maximum !== undefined) {
+    details.push(`${field.minimum}-${field.maximum}`);
+  } else if (field.minimum !== undefined) {
+    details.push(`>= ${field.minimum}`);
+  } else if (field.maximum !== undefined) {
+    details.push(`<= ${field.maximum}`);
+  }
+  if (field.default !== undefined) details.push(`default: ${JSON.stringify(field.default)}`);
+  const description = field.description ?? "";
+  return details.length > 0 ? `${description} (${details.join(", ")})` : description;
+}
+
+/**
+ * --help text listing every behavior and its config flags.
+ */
+export function formatConfigHelp(behaviors: Record<string, BehaviorInfo>): string {
+  const lines: string[] = [];
+  for (const [key, behavior] of Object.entries(behaviors)) {
+    lines.push(`  ${key} - ${behavior.description}`);
+    const fields = configFields(behavior);
+    if (fields.length === 0) {
+      lines.push("      (no options)");
+    }
+    const usages = fields.map((field) => {
+      const flag = `--${configFlagName(field.name)}`;
+      return field.type === "boolean" ? flag : `${flag} <${field.type}>`;
+    });
+    const width = Math.max(0, ...usages.map((usage) => usage.length));
+    fields.forEach((field, i) => {
+      lines.push(`      ${usages[i].padEnd(width)}  ${describeField(field)}`);
+    });
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Parse a run file: a JSON or YAML object (by the path's extension) of
+ * runner options.
+ * @throws Error if the file isn't valid JSON / YAML or isn't an object
+ */
+export function parseRunFile(path: string, text: string): Record<string, unknown> {
+  const yaml = /\.ya?ml$/i.test(path);
+  let parsed: unknown;
+  try {
+    parsed = yaml ? parseYaml(text) : JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid run file ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Invalid run file ${path}: expected an object of options`);
+  }
+  return parsed as Record<string, unknown>;
+}
@@ -0,0 +1,42 @@
+/**
+ * Custom Metrics
+ *
+ * Values behaviors emit through ctx.log.metric(name, value, op), kept per
+ * worker so they can be exported (e.g. as Prometheus gauges) while the run
+ * is live.
+ */
+
+export interface CustomMetricValue {
+  name: string;
+  workerId: number;
+  value: number;
+}
+
+export class CustomMetrics {
+  private readonly values = new Map<string, CustomMetricValue>();
+
+  /**
+   * Apply a MinionLogger.metric() call: "set" replaces the worker's value,
+   * "inc" adds to it.
+   */
+  apply(workerId: number, name: string, value: number, op: "set" | "inc" = "set"): void {
+    const key = `${workerId}\u0000${name}`;
+    const existing = this.values.get(key);
+    if (existing) {
+      existing.value = op === "inc" ? existing.value + value : value;
+    } else {
+      this.values.set(key, { name, workerId, value });
+    }
+  }
+
+  /** Current values, ordered by name then worker */
+  entries(): CustomMetricValue[] {
+    return [...this.values.values()].sort(
+      (a, b) => a.name.localeCompare(b.name) || a.workerId - b.workerId
+    );
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
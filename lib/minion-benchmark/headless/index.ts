@@ -0,0 +1,80 @@
+/**
+ * Headless Execution for Convex Benchmark Apps
+ *
+ * Node-side helpers for running behaviors outside the browser, e.g. from
+ * scripts/run-minion.ts on a load-test worker. Kept separate from the main
+ * entry point so browser bundles never pull these in.
+ *
+ * @example
+ * ```ts
+ * import { WorkerPool } from "./lib/minion-benchmark/headless";
+ *
+ * const pool = new WorkerPool({
+ *   behavior: behaviors.writer,
+ *   behaviorKey: "writer",
+ *   baseSeed: 42,
+ *   createContext: (worker) => ({ ctx: buildContext(worker) }),
+ * });
+ * const summary = await pool.run(20);
+ *
+ * // Or schedule the worker count over time:
+ * await runLoadProfile(pool, parseLoadProfile("ramp:1-50:2m,hold:10m,ramp:0:1m"));
+ * ```
+ */
+
+export {
+  WorkerPool,
+  type WorkerInfo,
+  type WorkerContext,
+  type WorkerContextFactory,
+  type WorkerPoolOptions,
+  type WorkerResult,
+  type WorkerPoolSummary,
+} from "./worker-pool";
+
+export {
+  runLoadProfile,
+  parseLoadProfile,
+  loadProfileFromJson,
+  loadProfileSchema,
+  profileDurationMs,
+  workersAt,
+  describePhase,
+  type LoadPhase,
+  type LoadPhaseType,
+  type LoadProfile,
+  type LoadProfileOptions,
+  type LoadProfileResult,
+  type LoadPhaseResult,
+  type LoadIntervalReport,
+} from "./load-profile";
+
+export {
+  attributeOpenLoopCall,
+  runOpenLoop,
+  type OpenLoopOptions,
+  type OpenLoopRun,
+  type OpenLoopSample,
+  type OpenLoopStats,
+} from "./open-loop";
+
+export { CustomMetrics, type CustomMetricValue } from "./custom-metrics";
+
+export {
+  formatPrometheus,
+  startMetricsServer,
+  type PrometheusInput,
+  type MetricsServer,
+} from "./prometheus";
+
+export { TraceFileWriter } from "./trace-file";
+
+export {
+  collectConfigFlags,
+  configFlagOptions,
+  configFromFlags,
+  configFlagName,
+  formatConfigHelp,
+  parseRunFile,
+  type ConfigFlag,
+} from "./cli-config";
@@ -0,0 +1,121 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { BaseMinionContext, MinionBehavior } from "../types";
+import { SeededRandom } from "../SeededRandom";
+import { WorkerPool } from "./worker-pool";
+import {
+  describePhase,
+  loadProfileFromJson,
+  parseLoadProfile,
+  profileDurationMs,
+  runLoadProfile,
+  workersAt,
+  type LoadProfile,
+} from "./load-profile";
+
+describe("parseLoadProfile", () => {
+  it("parses ramp, hold and spike phases, carrying the previous level", () => {
+    assert.deepEqual(parseLoadProfile("ramp:1-50:2m, hold:10m, spike:200:30s, ramp:0:1m"), {
+      phases: [
+        { type: "ramp", from: 1, to: 50, durationMs: 120_000 },
+        { type: "hold", from: 50, to: 50, durationMs: 600_000 },
+        { type: "spike", from: 200, to: 200, durationMs: 30_000 },
+        { type: "ramp", from: 200, to: 0, durationMs: 60_000 },
+      ],
+    });
+  });
+
+  it("starts a ramp without a from level at zero", () => {
+    assert.deepEqual(parseLoadProfile("ramp:10:1m").phases[0], { type: "ramp", from: 0, to: 10, durationMs: 60_000 });
+  });
+
+  it("rejects malformed phases", () => {
+    for (const spec of ["ramp:10", "burst:5:1m", "hold:5:1m:extra"]) {
+      assert.throws(() => parseLoadProfile(spec), /Invalid load phase/, spec);
+    }
+    assert.throws(() => parseLoadProfile("hold:-1:1m"));
+    assert.throws(() => parseLoadProfile("hold:5:soon"), /Invalid duration/);
+    assert.throws(() => parseLoadProfile(""));
+  });
+});
+
+describe("loadProfileFromJson", () => {
+  it("accepts numeric durations in seconds", () => {
+    const profile = loadProfileFromJson({ phases: [{ type: "hold", workers: 4, duration: 30 }] });
+    assert.deepEqual(profile.phases, [{ type: "hold", from: 4, to: 4, durationMs: 30_000 }]);
+  });
+});
+
+describe("workersAt", () => {
+  const profile: LoadProfile = parseLoadProfile("ramp:0-10:10s,hold:5s,spike:50:1s");
+
+  it("interpolates ramps and holds levels", () => {
+    assert.deepEqual(workersAt(profile, 0), { phaseIndex: 0, workers: 0 });
+    assert.deepEqual(workersAt(profile, 5000), { phaseIndex: 0, workers: 5 });
+    assert.deepEqual(workersAt(profile, 9999), { phaseIndex: 0, workers: 10 });
+    assert.deepEqual(workersAt(profile, 10_000), { phaseIndex: 1, workers: 10 });
+    assert.deepEqual(workersAt(profile, 15_500), { phaseIndex: 2, workers: 50 });
+  });
+
+  it("returns null once the profile is over", () => {
+    assert.equal(profileDurationMs(profile), 16_000);
+    assert.equal(workersAt(profile, 16_000), null);
+  });
+
+  it("describes phases", () => {
+    assert.equal(describePhase(profile.phases[0]), "ramp 0→10 over 10s");
+    assert.equal(describePhase(profile.phases[2]), "spike 50 over 1s");
+  });
+});
+
+describe("runLoadProfile", () => {
+  const behavior: MinionBehavior = {
+    name: "Loop",
+    description: "Reports operations until stopped",
+    async init() {},
+    async run(ctx) {
+      while (!ctx.shouldStop()) {
+        ctx.reportMetric?.(1, true);
+        await ctx.sleep(5);
+      }
+    },
+  };
+
+  it("scales the pool through every phase and retires all workers at the end", async () => {
+    const pool = new WorkerPool<BaseMinionContext>({
+      behavior,
+      behaviorKey: "loop",
+      baseSeed: 1,
+      log: () => {},
+      createContext: (worker) => ({
+        ctx: {
+          random: new SeededRandom(worker.seed),
+          sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+          shouldStop: worker.shouldStop,
+          log: worker.log,
+          reportMetric: worker.reportMetric,
+        },
+      }),
+    });
+
+    const started: number[] = [];
+    const { summary, phases } = await runLoadProfile(pool, parseLoadProfile("hold:2:150ms,spike:4:150ms"), {
+      tickMs: 10,
+      onPhaseStart: (_phase, index) => started.push(index),
+    });
+
+    assert.deepEqual(started, [0, 1]);
+    assert.deepEqual(
+      phases.map((p) => p.peakWorkers),
+      [2, 4]
+    );
+    assert.ok(phases.every((p) => p.metrics.totalCount > 0));
+    // Two workers, plus two more for the spike
+    assert.deepEqual(
+      summary.workers.map((w) => w.workerId),
+      [0, 1, 2, 3]
+    );
+    assert.equal(summary.run.reason, "completed");
+    assert.equal(pool.activeWorkers, 0);
+  });
+});
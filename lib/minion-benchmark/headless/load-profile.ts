@@ -0,0 +1,318 @@
+/**
+ * Load Profiles
+ *
+ * Schedules how many workers of a WorkerPool are active over time:
+ * ramp-up, steady state, spikes and ramp-down. Metrics are captured per
+ * phase and per reporting interval so latency can be compared across
+ * concurrency levels instead of at a single fixed level.
+ */
+
+import { z } from "zod";
+import type { BaseMinionContext } from "../types";
+import type { LatencyMetrics } from "../latency-tracking/types";
+import { HistogramMetricsCollector } from "../latency-tracking/histogram-collector";
+import { parseDuration, formatDuration } from "../run-limits";
+import type { WorkerPool, WorkerPoolSummary } from "./worker-pool";
+
+export type LoadPhaseType = "ramp" | "hold" | "spike";
+
+/**
+ * One phase of a load profile. Hold and spike phases have from === to.
+ */
+export interface LoadPhase {
+  type: LoadPhaseType;
+  /** Worker count at the start of the phase */
+  from: number;
+  /** Worker count at the end of the phase */
+  to: number;
+  durationMs: number;
+}
+
+export interface LoadProfile {
+  phases: LoadPhase[];
+}
+
+const durationSchema = z
+  .union([z.string(), z.number()])
+  .transform((value) => parseDuration(value));
+
+const workersSchema = z.number().int().min(0);
+
+/**
+ * Zod schema for JSON load profiles, e.g.
+ * `{ "phases": [{ "type": "ramp", "from": 1, "to": 50, "duration": "2m" }] }`.
+ * `workers` may be omitted on hold phases to keep the previous level.
+ */
+export const loadProfileSchema = z.object({
+  phases: z
+    .array(
+      z.discriminatedUnion("type", [
+        z.object({
+          type: z.literal("ramp"),
+          from: workersSchema.optional(),
+          to: workersSchema,
+          duration: durationSchema,
+        }),
+        z.object({
+          type: z.literal("hold"),
+          workers: workersSchema.optional(),
+          duration: durationSchema,
+        }),
+        z.object({
+          type: z.literal("spike"),
+          workers: workersSchema,
+          duration: durationSchema,
+        }),
+      ])
+    )
+    .min(1),
+});
+
+/**
+ * Build a LoadProfile from parsed JSON (see loadProfileSchema).
+ */
+export function loadProfileFromJson(value: unknown): LoadProfile {
+  const parsed = loadProfileSchema.parse(value);
+  const phases: LoadPhase[] = [];
+  let previous = 0;
+
+  for (const raw of parsed.phases) {
+    let phase: LoadPhase;
+    switch (raw.type) {
+      case "ramp":
+        phase = { type: "ramp", from: raw.from ?? previous, to: raw.to, durationMs: raw.duration };
+        break;
+      case "hold": {
+        const workers = raw.workers ?? previous;
+        phase = { type: "hold", from: workers, to: workers, durationMs: raw.duration };
+        break;
+      }
+      case "spike":
+        phase = { type: "spike", from: raw.workers, to: raw.workers, durationMs: raw.duration };
+        break;
+    }
+    phases.push(phase);
+    previous = phase.to;
+  }
+
+  return { phases };
+}
+
+/**
+ * Parse a compact profile spec: comma-separated phases of
+ * `ramp:FROM-TO:DURATION`, `ramp:TO:DURATION`, `hold:WORKERS:DURATION`,
+ * `hold:DURATION` (keep previous level) or `spike:WORKERS:DURATION`.
+ *
+ * @example
+ * parseLoadProfile("ramp:1-50:2m,hold:10m,spike:200:30s,ramp:0:1m")
+ */
+export function parseLoadProfile(spec: string): LoadProfile {
+  const phases = spec
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const fields = part.split(":");
+      const type = fields[0];
+      const invalid = () => new Error(`Invalid load phase: "${part}"`);
+
+      if (type === "hold" && fields.length === 2) {
+        return { type, duration: fields[1] };
+      }
+      if (fields.length !== 3) throw invalid();
+
+      const [, workers, duration] = fields;
+      if (type === "ramp") {
+        const [from, to] = workers.includes("-") ? workers.split("-") : [undefined, workers];
+        return {
+          type,
+          from: from !== undefined ? Number(from) : undefined,
+          to: Number(to),
+          duration,
+        };
+      }
+      if (type === "hold" || type === "spike") {
+        return { type, workers: Number(workers), duration };
+      }
+      throw invalid();
+    });
+
+  return loadProfileFromJson({ phases });
+}
+
+/**
+ * Total length of a profile in milliseconds.
+ */
+export function profileDurationMs(profile: LoadProfile): number {
+  return profile.phases.reduce((sum, phase) => sum + phase.durationMs, 0);
+}
+
+/**
+ * Target worker count at a point in the profile.
+ * @returns The active phase and worker count, or null once the profile is over
+ */
+export function workersAt(
+  profile: LoadProfile,
+  elapsedMs: number
+): { phaseIndex: number; workers: number } | null {
+  let phaseStart = 0;
+  for (let i = 0; i < profile.phases.length; i++) {
+    const phase = profile.phases[i];
+    if (elapsedMs < phaseStart + phase.durationMs) {
+      const progress = phase.durationMs > 0 ? (elapsedMs - phaseStart) / phase.durationMs : 1;
+      return {
+        phaseIndex: i,
+        workers: Math.round(phase.from + (phase.to - phase.from) * progress),
+      };
+    }
+    phaseStart += phase.durationMs;
+  }
+  return null;
+}
+
+/**
+ * Short description of a phase, e.g. "ramp 1→50 over 2m 0s".
+ */
+export function describePhase(phase: LoadPhase): string {
+  const workers = phase.from === phase.to ? `${phase.to}` : `${phase.from}→${phase.to}`;
+  return `${phase.type} ${workers} over ${formatDuration(phase.durationMs)}`;
+}
+
+/**
+ * Metrics for one reporting interval of a profile run.
+ */
+export interface LoadIntervalReport {
+  elapsedMs: number;
+  phaseIndex: number;
+  targetWorkers: number;
+  activeWorkers: number;
+  /** Metrics for operations completed during this interval only */
+  metrics: LatencyMetrics;
+}
+
+/**
+ * Metrics for one completed phase.
+ */
+export interface LoadPhaseResult {
+  index: number;
+  phase: LoadPhase;
+  /** Highest target worker count reached during the phase */
+  peakWorkers: number;
+  /** Wall-clock time actually spent in the phase */
+  durationMs: number;
+  metrics: LatencyMetrics;
+}
+
+export interface LoadProfileResult {
+  summary: WorkerPoolSummary;
+  phases: LoadPhaseResult[];
+}
+
+export interface LoadProfileOptions {
+  /** How often to re-evaluate the target worker count (default: 1000ms) */
+  tickMs?: number;
+  /** How often to emit an interval report (default: 10000ms, 0 disables) */
+  reportIntervalMs?: number;
+  /** Called when a phase begins */
+  onPhaseStart?: (phase: LoadPhase, index: number) => void;
+  /** Called at every reporting interval */
+  onReport?: (report: LoadIntervalReport) => void;
+}
+
+/**
+ * Drive a WorkerPool through a load profile and wait for it to finish.
+ * The run ends when the profile is over, the pool is stopped, or the
+ * pool's run budget is exhausted.
+ */
+export async function runLoadProfile<TContext extends BaseMinionContext>(
+  pool: WorkerPool<TContext>,
+  profile: LoadProfile,
+  options: LoadProfileOptions = {}
+): Promise<LoadProfileResult> {
+  const tickMs = options.tickMs ?? 1000;
+  const reportIntervalMs = options.reportIntervalMs ?? 10_000;
+
+  const phaseResults: LoadPhaseResult[] = [];
+  const newCollector = () => new HistogramMetricsCollector({ maxBufferedRecords: 0 });
+  const intervalCollector = newCollector();
+  let phaseCollector = newCollector();
+  let phaseIndex = -1;
+  let phaseStart = 0;
+  let targetWorkers = 0;
+
+  const endPhase = () => {
+    if (phaseIndex < 0) return;
+    phaseResults[phaseIndex].durationMs = Date.now() - phaseStart;
+    phaseResults[phaseIndex].metrics = phaseCollector.getMetrics();
+  };
+
+  const unsubscribe = pool.onRecord((rec) => {
+    phaseCollector.record(rec);
+    intervalCollector.record(rec);
+  });
+
+  pool.begin();
+  const startTime = Date.now();
+
+  await new Promise<void>((resolve) => {
+    let reportTimer: ReturnType<typeof setInterval> | undefined;
+
+    const finish = () => {
+      clearInterval(tickTimer);
+      if (reportTimer) clearInterval(reportTimer);
+      endPhase();
+      // Retire everyone; the pool stays un-stopped so the run counts as completed
+      pool.scaleTo(0);
+      resolve();
+    };
+
+    const tick = () => {
+      const position = workersAt(profile, Date.now() - startTime);
+      if (!position || pool.shouldStop()) {
+        finish();
+        return;
+      }
+
+      if (position.phaseIndex !== phaseIndex) {
+        endPhase();
+        phaseIndex = position.phaseIndex;
+        phaseStart = Date.now();
+        phaseCollector = newCollector();
+        const phase = profile.phases[phaseIndex];
+        phaseResults[phaseIndex] = {
+          index: phaseIndex,
+          phase,
+          peakWorkers: 0,
+          durationMs: 0,
+          metrics: phaseCollector.getMetrics(),
+        };
+        options.onPhaseStart?.(phase, phaseIndex);
+      }
+
+      targetWorkers = position.workers;
+      const result = phaseResults[phaseIndex];
+      result.peakWorkers = Math.max(result.peakWorkers, targetWorkers);
+      pool.scaleTo(targetWorkers);
+    };
+
+    const tickTimer = setInterval(tick, tickMs);
+    if (reportIntervalMs > 0 && options.onReport) {
+      const onReport = options.onReport;
+      reportTimer = setInterval(() => {
+        onReport({
+          elapsedMs: Date.now() - startTime,
+          phaseIndex,
+          targetWorkers,
+          activeWorkers: pool.activeWorkers,
+          metrics: intervalCollector.getMetrics(),
+        });
+        intervalCollector.reset();
+      }, reportIntervalMs);
+    }
+    tick();
+  });
+
+  const summary = await pool.drain();
+  unsubscribe();
+  return { summary, phases: phaseResults.filter(Boolean) };
+}
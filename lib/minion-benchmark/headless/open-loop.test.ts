@@ -0,0 +1,146 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { BaseMinionContext, BehaviorContext, ISeededRandom, MinionBehavior } from "../types";
+import { SeededRandom } from "../SeededRandom";
+import { attributeOpenLoopCall, runOpenLoop, type OpenLoopOptions, type OpenLoopSample } from "./open-loop";
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+const ctx = {
+  config: {},
+  random: new SeededRandom(1),
+  sleep,
+  shouldStop: () => false,
+  log: () => {},
+} as BehaviorContext<BaseMinionContext, unknown>;
+
+function behavior(operation: MinionBehavior["operation"]): MinionBehavior {
+  return { name: "Test", description: "Test behavior", async init() {}, async run() {}, operation };
+}
+
+/** Run `behavior` open-loop until `count` operations were issued */
+async function runFor(
+  count: number,
+  target: MinionBehavior,
+  options: OpenLoopOptions,
+  random: ISeededRandom = new SeededRandom(1)
+) {
+  const samples: OpenLoopSample[] = [];
+  let issued = 0;
+  const counted = behavior(async (c) => {
+    issued++;
+    await target.operation?.(c);
+  });
+  const stats = await runOpenLoop({
+    ctx,
+    behavior: counted,
+    options,
+    random,
+    shouldStop: () => issued >= count,
+    onSample: (sample) => samples.push(sample),
+  });
+  samples.sort((a, b) => a.intendedStart - b.intendedStart);
+  return { stats, samples };
+}
+
+const gaps = (samples: OpenLoopSample[]) =>
+  samples.slice(1).map((sample, i) => sample.intendedStart - samples[i].intendedStart);
+
+describe("runOpenLoop", () => {
+  it("schedules operations at a fixed interval and waits for in-flight ones", async () => {
+    const { stats, samples } = await runFor(10, behavior(() => sleep(20)), { ratePerSecond: 200 });
+
+    assert.equal(stats.issued, 10);
+    assert.equal(stats.completed, 10);
+    assert.equal(samples.length, 10);
+    assert.deepEqual(gaps(samples), Array(9).fill(5));
+  });
+
+  it("draws Poisson gaps from the arrival stream at the target mean", async () => {
+    const rates: number[] = [];
+    const random = {
+      exponential: (rate: number) => {
+        rates.push(rate);
+        return 7;
+      },
+    } as ISeededRandom;
+    const { samples } = await runFor(5, behavior(async () => {}), { ratePerSecond: 100, poisson: true }, random);
+
+    assert.deepEqual(gaps(samples), [7, 7, 7, 7]);
+    assert.ok(rates.every((rate) => rate === 1 / 10));
+  });
+
+  it("counts time spent waiting for a free slot as latency", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const slow = behavior(async () => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await sleep(30);
+      inFlight--;
+    });
+    const { stats, samples } = await runFor(4, slow, { ratePerSecond: 1000, maxInFlight: 1 });
+
+    assert.equal(maxInFlight, 1);
+    assert.ok(stats.maxScheduleLagMs >= 60, `${stats.maxScheduleLagMs}`);
+    const last = samples[samples.length - 1];
+    assert.ok(last.latencyMs >= last.serviceTimeMs + 60, `${last.latencyMs} vs ${last.serviceTimeMs}`);
+  });
+
+  it("reports failed operations with their error", async () => {
+    let n = 0;
+    const flaky = behavior(async () => {
+      if (n++ % 2 === 1) throw new Error("boom");
+    });
+    const { stats, samples } = await runFor(4, flaky, { ratePerSecond: 1000 });
+
+    assert.equal(stats.errors, 2);
+    assert.deepEqual(
+      samples.map((s) => [s.success, s.error]),
+      [
+        [true, undefined],
+        [false, "boom"],
+        [true, undefined],
+        [false, "boom"],
+      ]
+    );
+  });
+
+  it("rejects behaviors without operation() and invalid rates", async () => {
+    const run = (target: MinionBehavior, ratePerSecond: number) =>
+      runOpenLoop({ ctx, behavior: target, options: { ratePerSecond }, random: new SeededRandom(1), shouldStop: () => true, onSample: () => {} });
+    await assert.rejects(run(behavior(undefined), 10), /does not support open-loop mode/);
+    await assert.rejects(run(behavior(async () => {}), 0), /Invalid open-loop rate/);
+  });
+});
+
+describe("attributeOpenLoopCall", () => {
+  const call = (functionName: string) =>
+    ({ type: "query", functionName, latencyMs: 1, success: true, timestamp: 0 }) as const;
+
+  it("labels the sample with the operation's last tracked call", async () => {
+    const attributed: boolean[] = [];
+    const tracked = behavior(async () => {
+      await sleep(1);
+      attributed.push(attributeOpenLoopCall(call("items:fetchItems")));
+      attributed.push(attributeOpenLoopCall({ ...call("items:updateItem"), type: "mutation" }));
+    });
+    const { samples } = await runFor(1, tracked, { ratePerSecond: 100 });
+
+    assert.deepEqual(attributed, [true, true]);
+    assert.equal(samples[0].type, "mutation");
+    assert.equal(samples[0].functionName, "items:updateItem");
+  });
+
+  it("leaves calls outside an operation and after it completed unattributed", async () => {
+    assert.equal(attributeOpenLoopCall(call("items:fetchItems")), false);
+
+    let later: Promise<boolean> | undefined;
+    const detached = behavior(async () => {
+      later = sleep(20).then(() => attributeOpenLoopCall(call("items:fetchItems")));
+    });
+    const { samples } = await runFor(1, detached, { ratePerSecond: 100 });
+
+    assert.equal(await later, false);
+    assert.equal(samples[0].functionName, undefined);
+  });
+});
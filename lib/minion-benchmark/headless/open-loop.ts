@@ -0,0 +1,169 @@
+/**
+ * Open-Loop Execution
+ *
+ * Issues a behavior's operation() at a target arrival rate regardless of
+ * whether earlier operations have completed. Latency is measured from each
+ * operation's intended start time, so queueing delay shows up in the
+ * percentiles instead of silently lowering throughput (coordinated omission).
+ * Tracked Convex calls made by an operation are attributed to it (see
+ * attributeOpenLoopCall), so each sample carries the real call type and
+ * function name.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { BaseMinionContext, BehaviorContext, ISeededRandom, MinionBehavior } from "../types";
+import type { ConvexOperationType, LatencyRecord } from "../latency-tracking/types";
+
+export interface OpenLoopOptions {
+  /** Target arrival rate in operations per second */
+  ratePerSecond: number;
+  /** Exponentially distributed gaps (Poisson arrivals) instead of a fixed interval */
+  poisson?: boolean;
+  /**
+   * Maximum operations in flight. When reached, new arrivals wait for a free
+   * slot but keep their intended start time, so the wait counts as latency.
+   * (default: 1000)
+   */
+  maxInFlight?: number;
+}
+
+/**
+ * Timing of one open-loop operation.
+ */
+export interface OpenLoopSample {
+  /** When the schedule said the operation should start (epoch ms) */
+  intendedStart: number;
+  /** When it actually started (epoch ms) */
+  actualStart: number;
+  /** Completion time minus intended start */
+  latencyMs: number;
+  /** Completion time minus actual start */
+  serviceTimeMs: number;
+  success: boolean;
+  error?: string;
+  /** Type of the last tracked call the operation made, if any */
+  type?: ConvexOperationType;
+  /** Function name of the last tracked call the operation made, if any */
+  functionName?: string;
+}
+
+export interface OpenLoopStats {
+  issued: number;
+  completed: number;
+  errors: number;
+  /** Largest gap between intended and actual start */
+  maxScheduleLagMs: number;
+}
+
+export interface OpenLoopRun<TContext extends BaseMinionContext> {
+  ctx: BehaviorContext<TContext, unknown>;
+  behavior: MinionBehavior<TContext>;
+  options: OpenLoopOptions;
+  /** Random source for Poisson gaps; keep it separate from ctx.random */
+  random: ISeededRandom;
+  shouldStop: () => boolean;
+  onSample: (sample: OpenLoopSample) => void;
+}
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+/** The in-flight operation that tracked calls in the current async context belong to */
+interface OperationScope {
+  lastCall?: Pick<LatencyRecord, "type" | "functionName">;
+  done: boolean;
+}
+
+const operationScope = new AsyncLocalStorage<OperationScope>();
+
+/**
+ * Attribute a tracked call to the open-loop operation that made it, if any,
+ * so the operation's sample reports the call's type and function name.
+ * Call it from the latency sink of the context's tracked client.
+ *
+ * @returns True if a running open-loop operation made the call; its latency
+ *   is then covered by the operation's sample
+ */
+export function attributeOpenLoopCall(rec: LatencyRecord): boolean {
+  const scope = operationScope.getStore();
+  if (!scope || scope.done) return false;
+  scope.lastCall = { type: rec.type, functionName: rec.functionName };
+  return true;
+}
+
+/**
+ * Run a behavior's operation() open-loop until shouldStop() returns true,
+ * then wait for in-flight operations to finish.
+ *
+ * @throws Error if the behavior does not implement operation()
+ */
+export async function runOpenLoop<TContext extends BaseMinionContext>(
+  run: OpenLoopRun<TContext>
+): Promise<OpenLoopStats> {
+  const { ctx, behavior, options, random, shouldStop, onSample } = run;
+  const operation = behavior.operation?.bind(behavior);
+  if (!operation) {
+    throw new Error(`${behavior.name} does not support open-loop mode (no operation())`);
+  }
+  if (!(options.ratePerSecond > 0)) {
+    throw new Error(`Invalid open-loop rate: ${options.ratePerSecond}`);
+  }
+
+  const meanGapMs = 1000 / options.ratePerSecond;
+  const maxInFlight = options.maxInFlight ?? 1000;
+  const stats: OpenLoopStats = { issued: 0, completed: 0, errors: 0, maxScheduleLagMs: 0 };
+  const inFlight = new Set<Promise<void>>();
+
+  const nextGap = () =>
+    options.poisson ? random.exponential(1 / meanGapMs) : meanGapMs;
+
+  let intendedStart = Date.now();
+
+  while (!shouldStop()) {
+    const wait = intendedStart - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+      if (shouldStop()) break;
+    }
+    while (inFlight.size >= maxInFlight) {
+      await Promise.race(inFlight);
+    }
+
+    const scheduled = intendedStart;
+    const actualStart = Date.now();
+    stats.issued++;
+    stats.maxScheduleLagMs = Math.max(stats.maxScheduleLagMs, Math.round(actualStart - scheduled));
+
+    const scope: OperationScope = { done: false };
+    const pending = operationScope.run(scope, () => operation(ctx)).then(
+      () => ({ success: true, error: undefined }),
+      (err: unknown) => ({
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      })
+    ).then(({ success, error }) => {
+      const end = Date.now();
+      // Calls still made from this context later (e.g. polls started by the
+      // operation) are recorded on their own
+      scope.done = true;
+      stats.completed++;
+      if (!success) stats.errors++;
+      onSample({
+        intendedStart: Math.round(scheduled),
+        actualStart,
+        latencyMs: Math.round(end - scheduled),
+        serviceTimeMs: end - actualStart,
+        success,
+        error,
+        type: scope.lastCall?.type,
+        functionName: scope.lastCall?.functionName,
+      });
+      inFlight.delete(pending);
+    });
+    inFlight.add(pending);
+
+    intendedStart += nextGap();
+  }
+
+  await Promise.all(inFlight);
+  return stats;
+}
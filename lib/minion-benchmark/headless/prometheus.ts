@@ -0,0 +1,187 @@
+/**
+ * Prometheus Exposition
+ *
+ * Renders a WorkerPool's live metrics in the Prometheus text format and
+ * serves them from a small HTTP endpoint, so headless workers can be
+ * scraped like any other service.
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { HistogramSnapshot, MetricsSnapshot } from "../latency-tracking/types";
+import { LatencyHistogram, DEFAULT_LATENCY_BUCKETS_MS } from "../latency-tracking/histogram";
+import type { CustomMetricValue } from "./custom-metrics";
+
+export interface PrometheusInput {
+  /** Behavior being run, added as a `behavior` label */
+  behaviorKey: string;
+  snapshot: MetricsSnapshot;
+  activeWorkers: number;
+  /** Values from ctx.log.metric() */
+  customMetrics?: CustomMetricValue[];
+  /** Histogram bucket bounds in milliseconds (default: DEFAULT_LATENCY_BUCKETS_MS) */
+  bucketsMs?: number[];
+}
+
+type Labels = Record<string, string | number>;
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabel(String(value))}"`
+  );
+  return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+class Exposition {
+  private readonly lines: string[] = [];
+
+  family(name: string, type: "counter" | "gauge" | "histogram", help: string): void {
+    this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  }
+
+  sample(name: string, labels: Labels, value: number): void {
+    this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  histogram(name: string, labels: Labels, latency: HistogramSnapshot, bucketsMs: number[]): void {
+    const histogram = LatencyHistogram.fromSnapshot(latency);
+    for (const bound of bucketsMs) {
+      this.sample(`${name}_bucket`, { ...labels, le: bound / 1000 }, histogram.getCountAtOrBelow(bound));
+    }
+    this.sample(`${name}_bucket`, { ...labels, le: "+Inf" }, latency.totalCount);
+    this.sample(`${name}_sum`, labels, latency.sum / 1000);
+    this.sample(`${name}_count`, labels, latency.totalCount);
+  }
+
+  toString(): string {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Render metrics in the Prometheus text exposition format (version 0.0.4).
+ * Latency histograms are per function and in seconds; only successful
+ * operations contribute to them.
+ */
+export function formatPrometheus(input: PrometheusInput): string {
+  const { behaviorKey, snapshot } = input;
+  const bucketsMs = input.bucketsMs ?? DEFAULT_LATENCY_BUCKETS_MS;
+  const out = new Exposition();
+  const functions = Object.entries(snapshot.byFunction);
+
+  out.family("minion_active_workers", "gauge", "Workers currently running the behavior.");
+  out.sample("minion_active_workers", { behavior: behaviorKey }, input.activeWorkers);
+
+  out.family("minion_operations_total", "counter", "Operations reported by workers.");
+  for (const [name, fn] of functions) {
+    out.sample("minion_operations_total", { behavior: behaviorKey, function: name, type: fn.type }, fn.count);
+  }
+
+  out.family("minion_operation_errors_total", "counter", "Failed operations reported by workers.");
+  for (const [name, fn] of functions) {
+    out.sample(
+      "minion_operation_errors_total",
+      { behavior: behaviorKey, function: name, type: fn.type },
+      fn.errorCount
+    );
+  }
+
+  out.family(
+    "minion_operation_duration_seconds",
+    "histogram",
+    "Latency of successful operations."
+  );
+  for (const [name, fn] of functions) {
+    out.histogram(
+      "minion_operation_duration_seconds",
+      { behavior: behaviorKey, function: name, type: fn.type },
+      fn.latency,
+      bucketsMs
+    );
+  }
+
+  out.family(
+    "minion_type_duration_seconds",
+    "histogram",
+    "Latency of successful operations by operation type."
+  );
+  for (const [type, part] of Object.entries(snapshot.byType)) {
+    if (part.count === 0) continue;
+    out.histogram("minion_type_duration_seconds", { behavior: behaviorKey, type }, part.latency, bucketsMs);
+  }
+
+  const custom = input.customMetrics ?? [];
+  if (custom.length > 0) {
+    out.family("minion_metric", "gauge", "Values emitted by behaviors via log.metric().");
+    for (const metric of custom) {
+      out.sample(
+        "minion_metric",
+        { behavior: behaviorKey, name: metric.name, worker: metric.workerId },
+        metric.value
+      );
+    }
+  }
+
+  return out.toString();
+}
+
+export interface MetricsServer {
+  /** Port actually bound (useful with port 0) */
+  port: number;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve `render()` at GET /metrics.
+ * @param port - Port to listen on (0 picks a free one)
+ * @param host - Interface to bind (default: all)
+ */
+export function startMetricsServer(
+  render: () => string,
+  port: number,
+  host?: string
+): Promise<MetricsServer> {
+  const server: Server = createServer((req, res) => {
+    const path = (req.url ?? "/").split("?")[0];
+    if (req.method !== "GET" || path !== "/metrics") {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found\n");
+      return;
+    }
+    try {
+      const body = render();
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(body);
+    } catch (err) {
+      res.writeHead(500, { "Content-Type": "text/plain" });
+      res.end(`${err instanceof Error ? err.message : String(err)}\n`);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        close: () =>
+          new Promise<void>((done, fail) => {
+            server.close((err) => (err ? fail(err) : done()));
+            // Don't wait for scrapers' keep-alive connections
+            server.closeAllConnections();
+          }),
+      });
+    });
+  });
+}
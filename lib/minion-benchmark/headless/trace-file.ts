@@ -0,0 +1,47 @@
+/**
+ * Trace Files
+ *
+ * Writes operation trace entries to a JSONL file as they are recorded, so
+ * a long run's trace doesn't have to fit in memory and survives a crash up
+ * to the last buffered line.
+ */
+
+import { createWriteStream, type WriteStream } from "node:fs";
+import type { TraceEntry } from "../trace";
+
+/**
+ * A TraceSink that appends one JSON line per entry to a file.
+ */
+export class TraceFileWriter {
+  private stream: WriteStream;
+  private failure: Error | undefined;
+  /** Entries written so far */
+  entries = 0;
+
+  /**
+   * @param path - File to write; an existing file is replaced
+   */
+  constructor(readonly path: string) {
+    this.stream = createWriteStream(path, { encoding: "utf8" });
+    this.stream.on("error", (err) => {
+      this.failure = err;
+    });
+  }
+
+  record(entry: TraceEntry): void {
+    if (this.failure) return;
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+    this.entries++;
+  }
+
+  /**
+   * Flush and close the file.
+   * @throws Error if the file couldn't be written
+   */
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.stream.end(resolve));
+    if (this.failure) {
+      throw new Error(`Failed to write trace ${this.path}: ${this.failure.message}`);
+    }
+  }
+}
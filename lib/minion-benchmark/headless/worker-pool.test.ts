@@ -0,0 +1,144 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { BaseMinionContext, MinionBehavior } from "../types";
+import { SeededRandom } from "../SeededRandom";
+import { WorkerPool, type WorkerInfo, type WorkerPoolOptions } from "./worker-pool";
+
+/** Convex calls each operation makes besides reporting itself */
+const CALLS_PER_OPERATION = 3;
+
+interface TestContext extends BaseMinionContext {
+  /** Stand-in for a tracked Convex call */
+  call(): void;
+}
+
+function testContext(worker: WorkerInfo): TestContext {
+  return {
+    random: new SeededRandom(worker.seed),
+    workerId: worker.workerId,
+    sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    shouldStop: worker.shouldStop,
+    log: worker.log,
+    call: () =>
+      worker.record({ type: "query", functionName: "items:fetchItems", latencyMs: 1, success: true, timestamp: Date.now() }),
+  };
+}
+
+/** Reports one operation per loop, each made of several Convex calls */
+const loopBehavior: MinionBehavior<TestContext> = {
+  name: "Loop",
+  description: "Reports operations until stopped",
+  async init() {},
+  async run(ctx) {
+    while (!ctx.shouldStop()) {
+      for (let i = 0; i < CALLS_PER_OPERATION; i++) ctx.call();
+      ctx.reportMetric?.(1, true);
+      await ctx.sleep(0);
+    }
+  },
+};
+
+function pool(options: Partial<WorkerPoolOptions<TestContext>> = {}): WorkerPool<TestContext> {
+  return new WorkerPool<TestContext>({
+    behavior: loopBehavior,
+    behaviorKey: "loop",
+    baseSeed: 1,
+    createContext: (worker) => ({ ctx: testContext(worker) }),
+    log: () => {},
+    ...options,
+  });
+}
+
+describe("WorkerPool", () => {
+  it("counts reported operations, not Convex calls, toward maxOperations", async () => {
+    const summary = await pool({ limits: { maxOperations: 20 } }).run(2);
+
+    assert.equal(summary.run.reason, "operations");
+    // Each worker checks shouldStop() before its next operation
+    assert.ok(summary.run.operations >= 20 && summary.run.operations <= 21, `${summary.run.operations}`);
+    assert.equal(
+      summary.workers.reduce((sum, w) => sum + w.operations, 0),
+      summary.run.operations
+    );
+    assert.equal(summary.metrics.totalCount, summary.run.operations * CALLS_PER_OPERATION);
+  });
+
+  it("forwards counted operations to the context's own reporter", async () => {
+    const summary = await pool({
+      limits: { maxOperations: 5 },
+      createContext: (worker) => ({
+        ctx: { ...testContext(worker), call: () => {}, reportMetric: worker.reportMetric },
+      }),
+    }).run(1);
+
+    assert.equal(summary.run.operations, 5);
+    assert.equal(summary.metrics.byType.mutation.count, 5);
+    assert.equal(summary.metrics.totalCount, 5);
+  });
+
+  it("counts failed operations as errors", async () => {
+    let n = 0;
+    const behavior: MinionBehavior<TestContext> = {
+      ...loopBehavior,
+      async run(ctx) {
+        while (!ctx.shouldStop()) {
+          ctx.reportMetric?.(1, n++ % 2 === 0);
+          await ctx.sleep(0);
+        }
+      },
+    };
+    const summary = await pool({ behavior, limits: { maxOperations: 10 } }).run(1);
+    assert.equal(summary.run.operations, 10);
+    assert.equal(summary.run.errors, 5);
+    assert.equal(summary.workers[0].errors, 5);
+  });
+});
+
+describe("WorkerPool.scaleTo", () => {
+  it("replaces workers whose behavior finished on its own", async () => {
+    const behavior: MinionBehavior<TestContext> = {
+      ...loopBehavior,
+      async run(ctx) {
+        ctx.reportMetric?.(1, true);
+      },
+    };
+    const workers = pool({ behavior });
+    workers.begin();
+    workers.scaleTo(2);
+    await workers.drain();
+    workers.scaleTo(2);
+    const summary = await workers.drain();
+
+    assert.deepEqual(
+      summary.workers.map((w) => [w.workerId, w.operations]),
+      [
+        [0, 1],
+        [1, 1],
+        [2, 1],
+        [3, 1],
+      ]
+    );
+  });
+
+  it("retires the newest workers when shrinking", async () => {
+    const workers = pool();
+    workers.begin();
+    workers.scaleTo(3);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(workers.activeWorkers, 3);
+
+    workers.scaleTo(1);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal(workers.activeWorkers, 1);
+
+    // Growing again spawns a new worker id rather than reviving a retired one
+    workers.scaleTo(2);
+    workers.stop();
+    const summary = await workers.drain();
+    assert.deepEqual(
+      summary.workers.map((w) => w.workerId),
+      [0, 1, 2, 3]
+    );
+    assert.equal(summary.run.reason, "stopped");
+  });
+});
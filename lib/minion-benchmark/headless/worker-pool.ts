@@ -0,0 +1,414 @@
+/**
+ * Worker Pool
+ *
+ * Runs many independent instances of one behavior inside a single process.
+ * Each worker gets its own context, seed and workerId; latency records from
+ * every worker are aggregated into one shared, bounded-memory histogram
+ * collector. The run budget counts behavior operations: calls to
+ * ctx.reportMetric, or operations issued in open-loop mode.
+ */
+
+import type { BaseMinionContext, MinionBehavior } from "../types";
+import type {
+  LatencyMetrics,
+  LatencyRecord,
+  MetricsCollector,
+  MetricsSnapshot,
+  TimeSeriesBucket,
+} from "../latency-tracking/types";
+import { HistogramMetricsCollector } from "../latency-tracking/histogram-collector";
+import { SeededRandom, deriveSeed } from "../SeededRandom";
+import { parseBehaviorConfig } from "../schema-utils";
+import { RunBudget, type RunLimits, type RunSummary, type StopReason } from "../run-limits";
+import { attributeOpenLoopCall, runOpenLoop, type OpenLoopOptions } from "./open-loop";
+import { CustomMetrics, type CustomMetricValue } from "./custom-metrics";
+
+/**
+ * Per-worker information handed to the context factory.
+ */
+export interface WorkerInfo {
+  /** Worker index, counting up from the pool's firstWorkerId */
+  workerId: number;
+  /** Seed derived from the pool's base seed and the worker id */
+  seed: number;
+  /** Validated behavior config with defaults applied; the behavior gets it as ctx.config */
+  config: Record<string, unknown>;
+  /** Returns true once the pool (or this worker) has been asked to stop */
+  shouldStop: () => boolean;
+  /** Log a message prefixed with the worker id; log.metric() feeds getCustomMetrics() */
+  log: BaseMinionContext["log"];
+  /**
+   * Record an operation latency into the shared collector, e.g. as the
+   * context's reportMetric when its Convex calls aren't tracked otherwise.
+   * Counting toward the run budget happens in the pool's own wrapper around
+   * ctx.reportMetric, so this only records.
+   */
+  reportMetric: (latencyMs: number, success: boolean, functionName?: string) => void;
+  /**
+   * Record a complete LatencyRecord (stamped with this worker's id), e.g. as
+   * the sink of trackConvexClient(). Does not count toward the run budget:
+   * one behavior operation may make several Convex calls.
+   */
+  record: (rec: LatencyRecord) => void;
+}
+
+/**
+ * A context built for one worker, plus an optional cleanup hook
+ * (e.g. closing a per-worker ConvexClient).
+ */
+export interface WorkerContext<TContext extends BaseMinionContext> {
+  ctx: TContext;
+  close?: () => void | Promise<void>;
+}
+
+export type WorkerContextFactory<TContext extends BaseMinionContext> = (
+  worker: WorkerInfo
+) => WorkerContext<TContext> | Promise<WorkerContext<TContext>>;
+
+export interface WorkerPoolOptions<TContext extends BaseMinionContext> {
+  /** Behavior every worker runs */
+  behavior: MinionBehavior<TContext>;
+  /** Registry key of the behavior, used to label metrics */
+  behaviorKey: string;
+  /** Base seed; each worker's seed is derived from it */
+  baseSeed: number;
+  /**
+   * Id of the first worker (default: 0). Give each machine of a distributed
+   * run its own range so worker ids, seeds and project partitions don't repeat
+   */
+  firstWorkerId?: number;
+  /** Builds the context for one worker */
+  createContext: WorkerContextFactory<TContext>;
+  /**
+   * Raw behavior config, validated against the behavior's configSchema when
+   * the pool is created (throws on invalid config)
+   */
+  config?: Record<string, unknown>;
+  /** Sink for worker log lines (default: console.log) */
+  log?: (workerId: number, message: string) => void;
+  /** Collector to aggregate into (default: a new HistogramMetricsCollector) */
+  collector?: MetricsCollector;
+  /** Duration / operation budget shared by all workers */
+  limits?: RunLimits;
+  /**
+   * Run behavior.operation() open-loop at this per-worker arrival rate
+   * instead of the behavior's own closed-loop run()
+   */
+  openLoop?: OpenLoopOptions;
+}
+
+/**
+ * Outcome of a single worker.
+ */
+export interface WorkerResult {
+  workerId: number;
+  seed: number;
+  /** Behavior operations (ctx.reportMetric calls or open-loop operations) */
+  operations: number;
+  /** Failed behavior operations */
+  errors: number;
+  /** Error that ended the worker, if any */
+  error?: string;
+}
+
+export interface WorkerPoolSummary {
+  behaviorKey: string;
+  baseSeed: number;
+  durationMs: number;
+  /** Why the run ended and the budget's operation counts */
+  run: RunSummary;
+  workers: WorkerResult[];
+  metrics: LatencyMetrics;
+  /** Mergeable snapshot, e.g. for combining runs from several machines */
+  snapshot: MetricsSnapshot;
+  /** Per-second metrics over the course of the run */
+  timeSeries: TimeSeriesBucket[];
+}
+
+interface WorkerSlot {
+  retired: boolean;
+  done: boolean;
+  result: WorkerResult;
+  promise: Promise<WorkerResult>;
+}
+
+export class WorkerPool<TContext extends BaseMinionContext> {
+  private readonly options: WorkerPoolOptions<TContext>;
+  private readonly collector: MetricsCollector;
+  private readonly budget: RunBudget;
+  private readonly slots: WorkerSlot[] = [];
+  private readonly recordListeners: Array<(rec: LatencyRecord) => void> = [];
+  private readonly customMetrics = new CustomMetrics();
+  private readonly config: Record<string, unknown>;
+  private stopped = false;
+  private running = 0;
+  private startTime = Date.now();
+
+  constructor(options: WorkerPoolOptions<TContext>) {
+    this.options = options;
+    this.collector =
+      options.collector ?? new HistogramMetricsCollector({ maxBufferedRecords: 0 });
+    this.budget = new RunBudget(options.limits);
+    this.config = parseBehaviorConfig(options.behavior, options.config) as Record<string, unknown>;
+  }
+
+  /**
+   * Start `count` workers and wait for all of them to finish.
+   */
+  async run(count: number): Promise<WorkerPoolSummary> {
+    this.begin();
+    this.scaleTo(count);
+    return this.drain();
+  }
+
+  /**
+   * Reset metrics and the run budget. Called by run(); call it yourself
+   * before driving the pool with scaleTo() directly.
+   */
+  begin(): void {
+    this.startTime = Date.now();
+    this.collector.reset();
+    this.customMetrics.reset();
+    this.budget.start();
+  }
+
+  /**
+   * Grow or shrink the number of live workers to `target`.
+   * New workers get the next free worker id; surplus workers are retired
+   * newest-first and exit at their next shouldStop() check. Workers whose
+   * behavior finished on its own are replaced.
+   */
+  scaleTo(target: number): void {
+    if (this.shouldStop()) return;
+    const live = this.slots.filter((slot) => !slot.retired && !slot.done);
+    for (let i = live.length; i < target; i++) {
+      this.spawn();
+    }
+    for (let i = live.length - 1; i >= target; i--) {
+      live[i].retired = true;
+    }
+  }
+
+  /**
+   * Wait until every worker (including ones spawned while waiting) has exited.
+   */
+  async drain(): Promise<WorkerPoolSummary> {
+    let settled = 0;
+    while (settled < this.slots.length) {
+      await Promise.all(this.slots.slice(settled).map((slot) => slot.promise));
+      settled = this.slots.length;
+    }
+
+    return {
+      behaviorKey: this.options.behaviorKey,
+      baseSeed: this.options.baseSeed,
+      durationMs: Date.now() - this.startTime,
+      run: this.budget.summarize(this.stopped),
+      workers: this.slots.map((slot) => slot.result),
+      metrics: this.collector.getMetrics(),
+      snapshot: this.collector.getSnapshot(),
+      timeSeries: this.collector.getTimeSeries(),
+    };
+  }
+
+  /**
+   * Ask every worker to stop. Workers exit at their next shouldStop() check.
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * End the run early with a reason recorded in the summary, e.g. "slo"
+   * when an objective is badly violated.
+   */
+  abort(reason: StopReason): void {
+    this.budget.abort(reason);
+  }
+
+  /** True once stopped or the run budget is exhausted */
+  shouldStop(): boolean {
+    return this.stopped || this.budget.isExhausted();
+  }
+
+  /** Whether stop() has been called */
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  /** Number of workers currently inside init/run */
+  get activeWorkers(): number {
+    return this.running;
+  }
+
+  /** Aggregate metrics across all workers so far */
+  getMetrics(): LatencyMetrics {
+    return this.collector.getMetrics();
+  }
+
+  /** Mergeable snapshot across all workers so far */
+  getSnapshot(): MetricsSnapshot {
+    return this.collector.getSnapshot();
+  }
+
+  /** Latest values emitted by workers via ctx.log.metric() */
+  getCustomMetrics(): CustomMetricValue[] {
+    return this.customMetrics.entries();
+  }
+
+  /**
+   * Metrics per interval across all workers so far, oldest first.
+   * @param intervalMs - Window width (default: 1s)
+   */
+  getTimeSeries(intervalMs?: number): TimeSeriesBucket[] {
+    return this.collector.getTimeSeries(intervalMs);
+  }
+
+  /**
+   * Subscribe to every record reported by any worker.
+   * Useful for per-phase or per-interval collectors.
+   * @returns Function that removes the listener
+   */
+  onRecord(listener: (rec: LatencyRecord) => void): () => void {
+    this.recordListeners.push(listener);
+    return () => {
+      const idx = this.recordListeners.indexOf(listener);
+      if (idx >= 0) this.recordListeners.splice(idx, 1);
+    };
+  }
+
+  /**
+   * Record a measurement that is not a worker operation, such as a
+   * "propagation" record from a PropagationTracker. It reaches the collector
+   * and listeners but does not count toward the run budget.
+   */
+  observe(rec: LatencyRecord): void {
+    this.collector.record(rec);
+    for (const listener of this.recordListeners) {
+      listener(rec);
+    }
+  }
+
+  private spawn(): void {
+    const workerId = (this.options.firstWorkerId ?? 0) + this.slots.length;
+    const slot = {
+      retired: false,
+      done: false,
+      result: {
+        workerId,
+        seed: deriveSeed(this.options.baseSeed, workerId),
+        operations: 0,
+        errors: 0,
+      },
+    } as WorkerSlot;
+    this.slots.push(slot);
+    slot.promise = this.runWorker(slot).finally(() => {
+      slot.done = true;
+    });
+  }
+
+  private async runWorker(slot: WorkerSlot): Promise<WorkerResult> {
+    const { behavior, openLoop } = this.options;
+    const sink = this.options.log ?? ((id, msg) => console.log(`[w${id}] ${msg}`));
+    const { result } = slot;
+    const { workerId } = result;
+
+    const worker: WorkerInfo = {
+      workerId,
+      seed: result.seed,
+      config: this.config,
+      shouldStop: () => slot.retired || this.shouldStop(),
+      log: Object.assign((message: string) => sink(workerId, message), {
+        metric: (name: string, value: number, op?: "set" | "inc") =>
+          this.customMetrics.apply(workerId, name, value, op),
+      }),
+      reportMetric: (latencyMs, success, functionName) =>
+        this.recordLatency(result, {
+          type: "mutation",
+          functionName: functionName ?? this.options.behaviorKey,
+          latencyMs,
+          success,
+          timestamp: Date.now() - latencyMs,
+        }),
+      record: (rec) => {
+        // In open-loop mode an operation's calls are reported by its sample
+        if (this.options.openLoop && attributeOpenLoopCall(rec)) return;
+        this.recordLatency(result, rec);
+      },
+    };
+
+    this.running++;
+    let built: WorkerContext<TContext> | undefined;
+    try {
+      built = await this.options.createContext(worker);
+      const ctx = Object.assign(built.ctx, { config: this.config });
+
+      // Count each reported operation toward the budget, forwarding to the
+      // context's own reporter
+      const reportMetric = ctx.reportMetric?.bind(ctx);
+      ctx.reportMetric = (latencyMs, success, functionName) => {
+        this.countOperation(result, success);
+        reportMetric?.(latencyMs, success, functionName);
+      };
+      await behavior.init(ctx);
+      if (!worker.shouldStop()) {
+        if (openLoop) {
+          const stats = await runOpenLoop({
+            ctx,
+            behavior,
+            options: openLoop,
+            // Separate stream so arrival gaps don't perturb the behavior's choices
+            random: new SeededRandom(result.seed).fork("arrivals"),
+            shouldStop: worker.shouldStop,
+            onSample: (sample) => {
+              if (!sample.success) {
+                worker.log(`ERROR: Operation failed: ${sample.error}`);
+              }
+              // Latency counts from the intended start, including queueing
+              this.countOperation(result, sample.success);
+              this.recordLatency(result, {
+                type: sample.type ?? "mutation",
+                functionName: sample.functionName ?? this.options.behaviorKey,
+                latencyMs: sample.latencyMs,
+                success: sample.success,
+                timestamp: sample.intendedStart,
+                error: sample.error,
+              });
+            },
+          });
+          worker.log(
+            `Open-loop complete: ${stats.issued} issued, ${stats.errors} errors, max schedule lag ${stats.maxScheduleLagMs}ms`
+          );
+        } else {
+          await behavior.run(ctx);
+        }
+      }
+    } catch (err) {
+      result.error = err instanceof Error ? err.message : String(err);
+      worker.log(`ERROR: ${result.error}`);
+    } finally {
+      this.running--;
+      try {
+        await built?.close?.();
+      } catch (err) {
+        worker.log(`ERROR: close failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return result;
+  }
+
+  /** Count one behavior operation toward the worker's totals and the run budget */
+  private countOperation(result: WorkerResult, success: boolean): void {
+    result.operations++;
+    if (!success) result.errors++;
+    this.budget.recordOperation(success);
+  }
+
+  private recordLatency(result: WorkerResult, record: LatencyRecord): void {
+    const rec: LatencyRecord = { ...record, workerId: result.workerId };
+    this.collector.record(rec);
+    for (const listener of this.recordListeners) {
+      listener(rec);
+    }
+  }
+}
@@ -1,7 +1,9 @@
 // Types
 export type {
   ISeededRandom,
+  SeededRandomState,
   BaseMinionContext,
+  BehaviorContext,
   MinionBehavior,
   MinionLogger,
   BehaviorCategory,
@@ -16,12 +18,44 @@ export {
   zodSchemaToJsonSchema,
   extractConfigSchema,
   parseConfig,
+  parseBehaviorConfig,
   safeParseConfig,
   extractBehaviorConfigInfo,
   type ConfigFieldSchema,
   type BehaviorConfigSchema,
 } from "./schema-utils";
 
+// Time- and operation-boxed runs
+export {
+  RunBudget,
+  parseDuration,
+  formatDuration,
+  formatRunSummary,
+  type RunLimits,
+  type RunSummary,
+  type StopReason,
+} from "./run-limits";
+
+// Error classification
+export { isWriteConflict, normalizeErrorMessage, countWriteConflicts } from "./errors";
+
+// SLO assertions
+export {
+  SloMonitor,
+  parseSlo,
+  toSloDefinition,
+  formatSlo,
+  evaluateSlo,
+  formatSloResults,
+  formatSloValue,
+  type SloSpec,
+  type SloDefinition,
+  type SloMetric,
+  type SloComparator,
+  type SloResult,
+  type SloMonitorOptions,
+} from "./slo";
+
 // React hook
 export {
   useMinionRunner,
@@ -37,8 +71,18 @@ export {
   type MinionToggleProps,
 } from "./react";
 
+// Operation trace recording and loading (for replay)
+export {
+  traceOperations,
+  parseTrace,
+  loadTrace,
+  type TraceEntry,
+  type TraceSink,
+  type TraceOptions,
+} from "./trace";
+
 // SeededRandom class
-export { SeededRandom } from "./SeededRandom";
+export { SeededRandom, deriveSeed } from "./SeededRandom";
 
 // Latency tracking for automatic Convex operation timing
 export {
@@ -52,13 +96,64 @@ export {
   useTrackedAction,
   useTrackedQuery,
   useRecordLatency,
+  // Tracked clients (headless)
+  trackConvexClient,
+  functionNameOf,
+  type LatencySink,
+  type TrackedClientOptions,
+  // Propagation latency
+  PropagationTracker,
+  createStamp,
+  type PropagationStamp,
+  type PropagationTrackerOptions,
   // Types
   type ConvexOperationType,
   type LatencyRecord,
   type LatencyMetrics,
   type TypeMetrics,
+  type FunctionMetrics,
   type LatencyReporterConfig,
   type LatencyContextValue,
+  type MetricsCollector,
+  type MetricsSnapshot,
+  type TypeSnapshot,
+  type FunctionSnapshot,
+  type HistogramSnapshot,
+  type TimeSeriesBucket,
   // Advanced
   LatencyMetricsCollector,
+  HistogramMetricsCollector,
+  LatencyHistogram,
+  TimeSeriesCollector,
+  OtlpExporter,
+  DEFAULT_LATENCY_BUCKETS_MS,
+  mergeSnapshots,
+  metricsFromSnapshot,
+  type HistogramCollectorOptions,
+  type HistogramOptions,
+  type TimeSeriesOptions,
+  type OtlpExporterConfig,
+  type SpanAttributes,
 } from "./latency-tracking";
+
+// Run reports (JSON / Markdown / HTML) and baseline comparison
+export {
+  buildRunReport,
+  chooseTimeSeriesInterval,
+  formatReportMarkdown,
+  formatReportHtml,
+  RUN_REPORT_VERSION,
+  type RunReport,
+  type RunReportInput,
+  type RunMetadata,
+  type FunctionReportRow,
+  type PhaseReportRow,
+  type ErrorBreakdown,
+  compareRuns,
+  formatComparison,
+  type RegressionThresholds,
+  type RunComparison,
+  type ScopeComparison,
+  type MetricComparison,
+  type ComparedMetric,
+} from "./reporting";
@@ -17,8 +17,10 @@ import type {
   LatencyContextValue,
   LatencyRecord,
   LatencyReporterConfig,
+  MetricsCollector,
 } from "./types";
 import { LatencyMetricsCollector } from "./metrics-collector";
+import type { OtlpExporter } from "./otlp-exporter";
 
 const LatencyContext = createContext<LatencyContextValue | null>(null);
 
@@ -26,6 +28,13 @@ export interface LatencyProviderProps extends LatencyReporterConfig {
   children: ReactNode;
   /** Disable tracking entirely (default: false) */
   disabled?: boolean;
+  /**
+   * Collector to record into (default: LatencyMetricsCollector).
+   * Pass a HistogramMetricsCollector for bounded memory on long runs.
+   */
+  collector?: MetricsCollector;
+  /** Export every recorded operation as an OpenTelemetry span */
+  otlpExporter?: OtlpExporter;
 }
 
 /**
@@ -55,8 +64,10 @@ export function LatencyProvider({
   onRecord,
   debug = false,
   clientId,
+  collector,
+  otlpExporter,
 }: LatencyProviderProps) {
-  const collectorRef = useRef(new LatencyMetricsCollector());
+  const collectorRef = useRef<MetricsCollector>(collector ?? new LatencyMetricsCollector());
   const flushTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // Flush function
@@ -121,6 +132,9 @@ export function LatencyProvider({
       };
 
       collectorRef.current.record(fullRecord);
+      // Records are stamped when the hook reports them, at the end of the
+      // call; a span starts when the call did
+      otlpExporter?.recordSpan({ ...fullRecord, timestamp: fullRecord.timestamp - rec.latencyMs });
 
       if (debug) {
         const icon = rec.success ? "+" : "x";
@@ -137,7 +151,7 @@ export function LatencyProvider({
         void flush();
       }
     },
-    [disabled, debug, onRecord, maxBufferSize, flush]
+    [disabled, debug, onRecord, maxBufferSize, flush, otlpExporter]
   );
 
   // Set up periodic flush
@@ -162,6 +176,8 @@ export function LatencyProvider({
       record,
       getMetrics: () => collectorRef.current.getMetrics(),
       getRecords: () => collectorRef.current.getRecords(),
+      getSnapshot: () => collectorRef.current.getSnapshot(),
+      getTimeSeries: (intervalMs?: number) => collectorRef.current.getTimeSeries(intervalMs),
       flush,
       reset: () => collectorRef.current.reset(),
       enabled: !disabled,
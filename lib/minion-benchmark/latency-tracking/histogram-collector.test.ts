@@ -0,0 +1,81 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { HistogramMetricsCollector, mergeSnapshots, metricsFromSnapshot } from "./histogram-collector";
+import type { ConvexOperationType, LatencyRecord } from "./types";
+import { SeededRandom } from "../SeededRandom";
+
+const FUNCTIONS: Array<[string, ConvexOperationType]> = [
+  ["items:listItems", "query"],
+  ["items:createItem", "mutation"],
+  ["items:updateItem", "mutation"],
+];
+
+function records(seed: number, count: number): LatencyRecord[] {
+  const random = new SeededRandom(seed);
+  return Array.from({ length: count }, (_, i) => {
+    const [functionName, type] = random.pick(FUNCTIONS);
+    const success = random.bool(0.95);
+    return {
+      type,
+      functionName,
+      latencyMs: random.int(1, 2000),
+      success,
+      timestamp: 1_700_000_000_000 + i,
+      error: success ? undefined : "Documents read from or written to the table changed",
+    };
+  });
+}
+
+function collect(recs: LatencyRecord[]): HistogramMetricsCollector {
+  const collector = new HistogramMetricsCollector();
+  for (const rec of recs) collector.record(rec);
+  return collector;
+}
+
+describe("mergeSnapshots", () => {
+  it("gives the same metrics as one collector for all records", () => {
+    const parts = [records(1, 4000), records(2, 2500), records(3, 10)];
+    const merged = metricsFromSnapshot(mergeSnapshots(parts.map((part) => collect(part).getSnapshot())));
+    const whole = collect(parts.flat()).getMetrics();
+
+    assert.equal(merged.totalCount, whole.totalCount);
+    assert.equal(merged.errorCount, whole.errorCount);
+    for (const key of ["latencyP50", "latencyP95", "latencyP99", "latencyMin", "latencyMax"] as const) {
+      assert.equal(merged[key], whole[key], key);
+    }
+    assert.deepEqual(merged.byType.mutation, whole.byType.mutation);
+    assert.deepEqual(merged.byFunction, whole.byFunction);
+  });
+
+  it("adds up error messages", () => {
+    const parts = [records(4, 1000), records(5, 1000)];
+    const snapshots = parts.map((part) => collect(part).getSnapshot());
+    const merged = mergeSnapshots(snapshots);
+    const total = Object.values(merged.errorMessages).reduce((sum, n) => sum + n, 0);
+    assert.equal(total, merged.errorCount);
+    assert.equal(merged.errorCount, snapshots[0].errorCount + snapshots[1].errorCount);
+  });
+
+  it("keeps observations out of the operation totals", () => {
+    const collector = collect(records(6, 100));
+    collector.record({ type: "propagation", functionName: "items", latencyMs: 40, success: true, timestamp: 0 });
+    collector.record({ type: "update", functionName: "items:listItems", latencyMs: 900, success: true, timestamp: 0 });
+    const merged = metricsFromSnapshot(mergeSnapshots([collector.getSnapshot()]));
+    assert.equal(merged.totalCount, 100);
+    assert.equal(merged.byType.propagation.count, 1);
+    assert.equal(merged.byType.update.count, 1);
+  });
+
+  it("accepts snapshots without newer record types", () => {
+    const snapshot = collect(records(7, 50)).getSnapshot();
+    const { propagation: _propagation, update: _update, ...byType } = snapshot.byType;
+    const old = { ...snapshot, byType: byType as typeof snapshot.byType };
+    const merged = mergeSnapshots([old, snapshot]);
+    assert.equal(merged.totalCount, 100);
+    assert.equal(merged.byType.update.count, 0);
+  });
+
+  it("returns an empty snapshot for no input", () => {
+    assert.equal(mergeSnapshots([]).totalCount, 0);
+  });
+});
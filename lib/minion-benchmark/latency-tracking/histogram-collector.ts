@@ -0,0 +1,383 @@
+/**
+ * Histogram Metrics Collector
+ *
+ * Bounded-memory alternative to LatencyMetricsCollector for long soaks.
+ * Latencies go into fixed-size histograms (O(1) per record) instead of an
+ * ever-growing array, and snapshots can be merged across workers.
+ */
+
+import type {
+  ConvexOperationType,
+  FunctionMetrics,
+  FunctionSnapshot,
+  HistogramSnapshot,
+  LatencyMetrics,
+  LatencyRecord,
+  MetricsCollector,
+  MetricsSnapshot,
+  TimeSeriesBucket,
+  TypeMetrics,
+  TypeSnapshot,
+} from "./types";
+import { LatencyHistogram, type HistogramOptions } from "./histogram";
+import { TimeSeriesCollector, type TimeSeriesOptions } from "./time-series";
+import { normalizeErrorMessage } from "../errors";
+
+const OPERATION_TYPES: ConvexOperationType[] = ["query", "mutation", "action", "propagation", "update"];
+
+/** Distinct error messages tracked before the rest are grouped */
+const MAX_ERROR_MESSAGES = 100;
+const OTHER_ERRORS = "(other errors)";
+
+export interface HistogramCollectorOptions extends HistogramOptions {
+  /**
+   * Maximum records kept for getRecords()/flush. Oldest records are dropped
+   * beyond this; aggregate metrics are unaffected. (default: 10000)
+   */
+  maxBufferedRecords?: number;
+  /** Resolution and retention of getTimeSeries() buckets */
+  timeSeries?: TimeSeriesOptions;
+}
+
+interface TypeState {
+  count: number;
+  successCount: number;
+  histogram: LatencyHistogram;
+}
+
+interface FunctionState extends TypeState {
+  type: ConvexOperationType;
+}
+
+export class HistogramMetricsCollector implements MetricsCollector {
+  private readonly options: HistogramCollectorOptions;
+  private readonly maxBufferedRecords: number;
+  private buffer: LatencyRecord[] = [];
+  private startTime: number = Date.now();
+  private totalCount = 0;
+  private successCount = 0;
+  private latency: LatencyHistogram;
+  private byType: Record<ConvexOperationType, TypeState>;
+  private byFunction = new Map<string, FunctionState>();
+  private errorMessages = new Map<string, number>();
+  private timeSeries: TimeSeriesCollector;
+
+  constructor(options: HistogramCollectorOptions = {}) {
+    this.options = options;
+    this.maxBufferedRecords = options.maxBufferedRecords ?? 10_000;
+    this.latency = new LatencyHistogram(options);
+    this.byType = this.emptyTypes();
+    this.timeSeries = new TimeSeriesCollector(options.timeSeries);
+  }
+
+  /**
+   * Add a latency record.
+   */
+  record(rec: LatencyRecord): void {
+    if (rec.type === "propagation" || rec.type === "update") {
+      this.recordObservation(rec);
+      return;
+    }
+    this.totalCount++;
+    const type = this.byType[rec.type];
+    const fn = this.functionState(rec);
+    type.count++;
+    fn.count++;
+    if (rec.success) {
+      this.successCount++;
+      type.successCount++;
+      fn.successCount++;
+      this.latency.record(rec.latencyMs);
+      type.histogram.record(rec.latencyMs);
+      fn.histogram.record(rec.latencyMs);
+    }
+    if (!rec.success && rec.error) {
+      this.countError(rec.error);
+    }
+    this.timeSeries.record(rec);
+
+    this.buffer.push(rec);
+    if (this.buffer.length > this.maxBufferedRecords) {
+      this.buffer.splice(0, this.buffer.length - this.maxBufferedRecords);
+    }
+  }
+
+  /**
+   * Get records buffered since the last clearRecords().
+   */
+  getRecords(): LatencyRecord[] {
+    return [...this.buffer];
+  }
+
+  /**
+   * Clear buffered records (after flush). Aggregates are kept.
+   */
+  clearRecords(): void {
+    this.buffer = [];
+  }
+
+  /**
+   * Get the current count of buffered records.
+   */
+  getCount(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Reset all state.
+   */
+  reset(): void {
+    this.buffer = [];
+    this.startTime = Date.now();
+    this.totalCount = 0;
+    this.successCount = 0;
+    this.latency.reset();
+    this.byType = this.emptyTypes();
+    this.byFunction.clear();
+    this.errorMessages.clear();
+    this.timeSeries.reset();
+  }
+
+  /**
+   * Compute aggregate metrics since the last reset.
+   */
+  getMetrics(): LatencyMetrics {
+    return metricsFromSnapshot(this.getSnapshot());
+  }
+
+  /**
+   * Mergeable snapshot of everything recorded since the last reset.
+   */
+  getSnapshot(): MetricsSnapshot {
+    const byType = {} as Record<ConvexOperationType, TypeSnapshot>;
+    for (const type of OPERATION_TYPES) {
+      const state = this.byType[type];
+      byType[type] = {
+        count: state.count,
+        successCount: state.successCount,
+        errorCount: state.count - state.successCount,
+        latency: state.histogram.snapshot(),
+      };
+    }
+    const byFunction: Record<string, FunctionSnapshot> = {};
+    for (const [name, state] of this.byFunction) {
+      byFunction[name] = {
+        type: state.type,
+        count: state.count,
+        successCount: state.successCount,
+        errorCount: state.count - state.successCount,
+        latency: state.histogram.snapshot(),
+      };
+    }
+    return {
+      startTime: this.startTime,
+      endTime: Date.now(),
+      totalCount: this.totalCount,
+      successCount: this.successCount,
+      errorCount: this.totalCount - this.successCount,
+      latency: this.latency.snapshot(),
+      byType,
+      byFunction,
+      errorMessages: Object.fromEntries(this.errorMessages),
+    };
+  }
+
+  /**
+   * Per-interval buckets since the last reset.
+   */
+  getTimeSeries(intervalMs?: number): TimeSeriesBucket[] {
+    return this.timeSeries.getBuckets(intervalMs);
+  }
+
+  /** Propagation and update observations only feed their byType entry */
+  private recordObservation(rec: LatencyRecord): void {
+    const type = this.byType[rec.type];
+    type.count++;
+    if (rec.success) {
+      type.successCount++;
+      type.histogram.record(rec.latencyMs);
+    }
+  }
+
+  private countError(error: string): void {
+    const message = normalizeErrorMessage(error);
+    const key =
+      this.errorMessages.has(message) || this.errorMessages.size < MAX_ERROR_MESSAGES
+        ? message
+        : OTHER_ERRORS;
+    this.errorMessages.set(key, (this.errorMessages.get(key) ?? 0) + 1);
+  }
+
+  private functionState(rec: LatencyRecord): FunctionState {
+    let state = this.byFunction.get(rec.functionName);
+    if (!state) {
+      state = {
+        type: rec.type,
+        count: 0,
+        successCount: 0,
+        histogram: new LatencyHistogram(this.options),
+      };
+      this.byFunction.set(rec.functionName, state);
+    }
+    state.type = rec.type;
+    return state;
+  }
+
+  private emptyTypes(): Record<ConvexOperationType, TypeState> {
+    const types = {} as Record<ConvexOperationType, TypeState>;
+    for (const type of OPERATION_TYPES) {
+      types[type] = { count: 0, successCount: 0, histogram: new LatencyHistogram(this.options) };
+    }
+    return types;
+  }
+}
+
+/**
+ * Build a snapshot from raw records (used by the exact collector).
+ */
+export function snapshotFromRecords(
+  records: LatencyRecord[],
+  startTime: number,
+  options: HistogramOptions = {}
+): MetricsSnapshot {
+  const collector = new HistogramMetricsCollector({ ...options, maxBufferedRecords: 0 });
+  for (const rec of records) {
+    collector.record(rec);
+  }
+  return { ...collector.getSnapshot(), startTime };
+}
+
+function emptyTypeSnapshot(): TypeSnapshot {
+  return {
+    count: 0,
+    successCount: 0,
+    errorCount: 0,
+    latency: new LatencyHistogram().snapshot(),
+  };
+}
+
+function mergeHistograms(snapshots: HistogramSnapshot[]): HistogramSnapshot {
+  const merged = LatencyHistogram.fromSnapshot(snapshots[0]);
+  for (const snapshot of snapshots.slice(1)) {
+    merged.add(LatencyHistogram.fromSnapshot(snapshot));
+  }
+  return merged.snapshot();
+}
+
+/**
+ * Merge snapshots from several collectors (e.g. one per worker or machine).
+ * Counts add up and histograms merge bucket-by-bucket, so the combined
+ * percentiles are the true percentiles of all operations.
+ */
+export function mergeSnapshots(snapshots: MetricsSnapshot[]): MetricsSnapshot {
+  if (snapshots.length === 0) {
+    return new HistogramMetricsCollector().getSnapshot();
+  }
+
+  const byType = {} as Record<ConvexOperationType, TypeSnapshot>;
+  for (const type of OPERATION_TYPES) {
+    const parts = snapshots.map((s) => s.byType[type] ?? emptyTypeSnapshot());
+    byType[type] = {
+      count: parts.reduce((sum, p) => sum + p.count, 0),
+      successCount: parts.reduce((sum, p) => sum + p.successCount, 0),
+      errorCount: parts.reduce((sum, p) => sum + p.errorCount, 0),
+      latency: mergeHistograms(parts.map((p) => p.latency)),
+    };
+  }
+
+  const byFunction: Record<string, FunctionSnapshot> = {};
+  for (const snapshot of snapshots) {
+    for (const [name, part] of Object.entries(snapshot.byFunction)) {
+      const existing = byFunction[name];
+      byFunction[name] = existing
+        ? {
+            type: part.type,
+            count: existing.count + part.count,
+            successCount: existing.successCount + part.successCount,
+            errorCount: existing.errorCount + part.errorCount,
+            latency: mergeHistograms([existing.latency, part.latency]),
+          }
+        : part;
+    }
+  }
+
+  const errorMessages: Record<string, number> = {};
+  for (const snapshot of snapshots) {
+    for (const [message, count] of Object.entries(snapshot.errorMessages)) {
+      errorMessages[message] = (errorMessages[message] ?? 0) + count;
+    }
+  }
+
+  return {
+    startTime: Math.min(...snapshots.map((s) => s.startTime)),
+    endTime: Math.max(...snapshots.map((s) => s.endTime)),
+    totalCount: snapshots.reduce((sum, s) => sum + s.totalCount, 0),
+    successCount: snapshots.reduce((sum, s) => sum + s.successCount, 0),
+    errorCount: snapshots.reduce((sum, s) => sum + s.errorCount, 0),
+    latency: mergeHistograms(snapshots.map((s) => s.latency)),
+    byType,
+    byFunction,
+    errorMessages,
+  };
+}
+
+/**
+ * Compute LatencyMetrics from a (possibly merged) snapshot.
+ */
+export function metricsFromSnapshot(snapshot: MetricsSnapshot): LatencyMetrics {
+  const windowSeconds = Math.max(1, (snapshot.endTime - snapshot.startTime) / 1000);
+  const latency = LatencyHistogram.fromSnapshot(snapshot.latency);
+
+  const typeMetrics = (type: ConvexOperationType): TypeMetrics => {
+    const part = snapshot.byType[type] ?? emptyTypeSnapshot();
+    const histogram = LatencyHistogram.fromSnapshot(part.latency);
+    return {
+      count: part.count,
+      successCount: part.successCount,
+      errorCount: part.errorCount,
+      latencyMean: histogram.getMean(),
+      latencyP50: histogram.getValueAtPercentile(0.5),
+      latencyP95: histogram.getValueAtPercentile(0.95),
+      latencyP99: histogram.getValueAtPercentile(0.99),
+      latencyMax: histogram.getMax(),
+    };
+  };
+
+  const byFunction: Record<string, FunctionMetrics> = {};
+  for (const [name, part] of Object.entries(snapshot.byFunction)) {
+    const histogram = LatencyHistogram.fromSnapshot(part.latency);
+    byFunction[name] = {
+      type: part.type,
+      count: part.count,
+      successCount: part.successCount,
+      errorCount: part.errorCount,
+      latencyP50: histogram.getValueAtPercentile(0.5),
+      latencyP95: histogram.getValueAtPercentile(0.95),
+      latencyP99: histogram.getValueAtPercentile(0.99),
+      latencyMin: histogram.getMin(),
+      latencyMax: histogram.getMax(),
+      latencyMean: histogram.getMean(),
+    };
+  }
+
+  return {
+    totalCount: snapshot.totalCount,
+    successCount: snapshot.successCount,
+    errorCount: snapshot.errorCount,
+    latencyP50: latency.getValueAtPercentile(0.5),
+    latencyP95: latency.getValueAtPercentile(0.95),
+    latencyP99: latency.getValueAtPercentile(0.99),
+    latencyMin: latency.getMin(),
+    latencyMax: latency.getMax(),
+    latencyMean: latency.getMean(),
+    opsPerSecond: snapshot.totalCount / windowSeconds,
+    byType: {
+      query: typeMetrics("query"),
+      mutation: typeMetrics("mutation"),
+      action: typeMetrics("action"),
+      propagation: typeMetrics("propagation"),
+      update: typeMetrics("update"),
+    },
+    byFunction,
+  };
+}
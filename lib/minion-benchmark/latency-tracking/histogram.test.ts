@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { LatencyHistogram } from "./histogram";
+import { SeededRandom } from "../SeededRandom";
+
+/** Nearest-rank percentile of sorted values, like the exact collector */
+function exactPercentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil(sorted.length * p) - 1)];
+}
+
+/** Long-tailed integer latencies between 1ms and ~60s */
+function latencies(seed: number, count: number): number[] {
+  const random = new SeededRandom(seed);
+  return Array.from({ length: count }, () => Math.min(60_000, Math.round(Math.exp(random.gaussian(4, 1.5)))));
+}
+
+describe("LatencyHistogram", () => {
+  for (const significantDigits of [2, 3]) {
+    it(`keeps percentiles within ${significantDigits} significant digits`, () => {
+      const values = latencies(significantDigits, 20_000);
+      const histogram = new LatencyHistogram({ significantDigits });
+      for (const value of values) histogram.record(value);
+      const sorted = [...values].sort((a, b) => a - b);
+
+      for (const p of [0.01, 0.5, 0.9, 0.95, 0.99, 0.999, 1]) {
+        const exact = exactPercentile(sorted, p);
+        const estimate = histogram.getValueAtPercentile(p);
+        assert.ok(estimate >= exact, `p${p * 100}: ${estimate} < exact ${exact}`);
+        assert.ok(
+          estimate - exact <= exact * Math.pow(10, -significantDigits),
+          `p${p * 100}: ${estimate} too far above exact ${exact}`
+        );
+      }
+      assert.equal(histogram.getMin(), sorted[0]);
+      assert.equal(histogram.getMax(), sorted[sorted.length - 1]);
+      assert.equal(histogram.getTotalCount(), values.length);
+    });
+  }
+
+  it("merges to the same percentiles as recording everything in one", () => {
+    const parts = [latencies(1, 5000), latencies(2, 3000), latencies(3, 100)];
+    const whole = new LatencyHistogram();
+    const merged = new LatencyHistogram();
+    for (const part of parts) {
+      const histogram = new LatencyHistogram();
+      for (const value of part) {
+        histogram.record(value);
+        whole.record(value);
+      }
+      merged.add(LatencyHistogram.fromSnapshot(histogram.snapshot()));
+    }
+    for (const p of [0.5, 0.95, 0.99]) {
+      assert.equal(merged.getValueAtPercentile(p), whole.getValueAtPercentile(p));
+    }
+    assert.equal(merged.getTotalCount(), whole.getTotalCount());
+    assert.equal(merged.getMean(), whole.getMean());
+  });
+
+  it("clamps values to the trackable range", () => {
+    const histogram = new LatencyHistogram({ highestTrackableValue: 1000 });
+    histogram.record(-5);
+    histogram.record(5000);
+    assert.equal(histogram.getMin(), 0);
+    assert.equal(histogram.getMax(), 1000);
+  });
+});
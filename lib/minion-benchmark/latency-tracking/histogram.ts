@@ -0,0 +1,237 @@
+/**
+ * Latency Histogram
+ *
+ * HDR-style log-linear histogram with configurable precision. Recording is
+ * O(1) and memory is fixed by the precision and highest trackable value, so
+ * it can run for hours. Histograms with the same configuration merge exactly,
+ * which makes percentiles across many workers correct rather than averaged.
+ */
+
+import type { HistogramSnapshot } from "./types";
+
+export interface HistogramOptions {
+  /** Decimal digits of precision to keep, 1-5 (default: 3, i.e. 0.1% error) */
+  significantDigits?: number;
+  /** Highest value tracked exactly; larger values are clamped (default: 60000) */
+  highestTrackableValue?: number;
+}
+
+/** Default bucket bounds (ms) when exporting to fixed-bucket formats */
+export const DEFAULT_LATENCY_BUCKETS_MS = [
+  1, 2, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000,
+];
+
+const DEFAULT_SIGNIFICANT_DIGITS = 3;
+const DEFAULT_HIGHEST_TRACKABLE_VALUE = 60_000;
+
+export class LatencyHistogram {
+  readonly significantDigits: number;
+  readonly highestTrackableValue: number;
+
+  private readonly subBucketHalfCountMagnitude: number;
+  private readonly subBucketHalfCount: number;
+  private readonly subBucketMask: number;
+  private readonly counts: Float64Array;
+
+  private total = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = 0;
+
+  constructor(options: HistogramOptions = {}) {
+    const digits = options.significantDigits ?? DEFAULT_SIGNIFICANT_DIGITS;
+    if (!Number.isInteger(digits) || digits < 1 || digits > 5) {
+      throw new Error(`significantDigits must be an integer between 1 and 5, got ${digits}`);
+    }
+    this.significantDigits = digits;
+    this.highestTrackableValue = Math.max(
+      2,
+      Math.ceil(options.highestTrackableValue ?? DEFAULT_HIGHEST_TRACKABLE_VALUE)
+    );
+
+    // Enough sub-buckets to keep `digits` decimal digits of precision
+    const largestSingleUnitResolution = 2 * Math.pow(10, digits);
+    const subBucketCountMagnitude = Math.ceil(Math.log2(largestSingleUnitResolution));
+    this.subBucketHalfCountMagnitude = subBucketCountMagnitude - 1;
+    const subBucketCount = Math.pow(2, subBucketCountMagnitude);
+    this.subBucketHalfCount = subBucketCount / 2;
+    this.subBucketMask = subBucketCount - 1;
+
+    // Double the covered range per bucket until highestTrackableValue fits
+    let bucketCount = 1;
+    let smallestUntrackable = subBucketCount;
+    while (smallestUntrackable <= this.highestTrackableValue) {
+      smallestUntrackable *= 2;
+      bucketCount++;
+    }
+    this.counts = new Float64Array((bucketCount + 1) * this.subBucketHalfCount);
+  }
+
+  /**
+   * Record a value (rounded to the nearest integer, clamped to the trackable range).
+   */
+  record(value: number, count = 1): void {
+    const v = Math.min(Math.max(0, Math.round(value)), this.highestTrackableValue);
+    this.counts[this.indexOf(v)] += count;
+    this.total += count;
+    this.sum += v * count;
+    if (v < this.min) this.min = v;
+    if (v > this.max) this.max = v;
+  }
+
+  /** Number of recorded values */
+  getTotalCount(): number {
+    return this.total;
+  }
+
+  getMin(): number {
+    return this.total === 0 ? 0 : this.min;
+  }
+
+  getMax(): number {
+    return this.max;
+  }
+
+  getMean(): number {
+    return this.total === 0 ? 0 : this.sum / this.total;
+  }
+
+  /**
+   * Value at a percentile (0-1), using nearest-rank like the exact collector.
+   * Returns the highest value equivalent to the matching bucket, capped at max.
+   */
+  getValueAtPercentile(p: number): number {
+    if (this.total === 0) return 0;
+    const rank = Math.max(1, Math.ceil(this.total * Math.min(1, Math.max(0, p))));
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen >= rank) {
+        return Math.min(this.highestEquivalentValue(i), this.max);
+      }
+    }
+    return this.max;
+  }
+
+  /**
+   * Number of recorded values less than or equal to `value`.
+   * Used for cumulative (Prometheus-style) bucket counts.
+   */
+  getCountAtOrBelow(value: number): number {
+    if (value >= this.max) return this.total;
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      if (this.counts[i] === 0) continue;
+      if (this.highestEquivalentValue(i) > value) break;
+      seen += this.counts[i];
+    }
+    return seen;
+  }
+
+  /**
+   * Iterate non-empty buckets as [representative value, count] pairs, in
+   * ascending order.
+   */
+  *buckets(): IterableIterator<[number, number]> {
+    for (let i = 0; i < this.counts.length; i++) {
+      if (this.counts[i] > 0) {
+        yield [Math.min(this.highestEquivalentValue(i), this.max), this.counts[i]];
+      }
+    }
+  }
+
+  /**
+   * Add all values from another histogram into this one.
+   * Identical configurations merge bucket-by-bucket; otherwise values are
+   * re-recorded at their bucket's representative value.
+   */
+  add(other: LatencyHistogram): void {
+    if (other.total === 0) return;
+    if (this.sameShape(other)) {
+      for (let i = 0; i < other.counts.length; i++) {
+        this.counts[i] += other.counts[i];
+      }
+      this.total += other.total;
+      this.sum += other.sum;
+      this.min = Math.min(this.min, other.min);
+      this.max = Math.max(this.max, other.max);
+      return;
+    }
+    for (const [value, count] of other.buckets()) {
+      this.record(value, count);
+    }
+  }
+
+  reset(): void {
+    this.counts.fill(0);
+    this.total = 0;
+    this.sum = 0;
+    this.min = Infinity;
+    this.max = 0;
+  }
+
+  /**
+   * Serializable form; only non-empty buckets are included.
+   */
+  snapshot(): HistogramSnapshot {
+    const counts: Array<[number, number]> = [];
+    for (let i = 0; i < this.counts.length; i++) {
+      if (this.counts[i] > 0) counts.push([i, this.counts[i]]);
+    }
+    return {
+      significantDigits: this.significantDigits,
+      highestTrackableValue: this.highestTrackableValue,
+      totalCount: this.total,
+      sum: this.sum,
+      min: this.getMin(),
+      max: this.max,
+      counts,
+    };
+  }
+
+  /**
+   * Rebuild a histogram from a snapshot (e.g. one received from another worker).
+   */
+  static fromSnapshot(snapshot: HistogramSnapshot): LatencyHistogram {
+    const histogram = new LatencyHistogram({
+      significantDigits: snapshot.significantDigits,
+      highestTrackableValue: snapshot.highestTrackableValue,
+    });
+    for (const [index, count] of snapshot.counts) {
+      histogram.counts[index] = count;
+    }
+    histogram.total = snapshot.totalCount;
+    histogram.sum = snapshot.sum;
+    histogram.min = snapshot.totalCount === 0 ? Infinity : snapshot.min;
+    histogram.max = snapshot.max;
+    return histogram;
+  }
+
+  private sameShape(other: LatencyHistogram): boolean {
+    return (
+      other.significantDigits === this.significantDigits &&
+      other.highestTrackableValue === this.highestTrackableValue
+    );
+  }
+
+  private indexOf(value: number): number {
+    const pow2Ceiling = 32 - Math.clz32(value | this.subBucketMask);
+    const bucketIndex = pow2Ceiling - this.subBucketHalfCountMagnitude - 1;
+    const subBucketIndex = Math.floor(value / Math.pow(2, bucketIndex));
+    return (
+      ((bucketIndex + 1) << this.subBucketHalfCountMagnitude) +
+      (subBucketIndex - this.subBucketHalfCount)
+    );
+  }
+
+  private highestEquivalentValue(index: number): number {
+    let bucketIndex = (index >> this.subBucketHalfCountMagnitude) - 1;
+    let subBucketIndex = (index & (this.subBucketHalfCount - 1)) + this.subBucketHalfCount;
+    if (bucketIndex < 0) {
+      subBucketIndex -= this.subBucketHalfCount;
+      bucketIndex = 0;
+    }
+    const scale = Math.pow(2, bucketIndex);
+    return subBucketIndex * scale + scale - 1;
+  }
+}
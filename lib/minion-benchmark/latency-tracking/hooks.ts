@@ -15,29 +15,7 @@ import {
 } from "convex/react";
 import type { FunctionReference, FunctionArgs, FunctionReturnType } from "convex/server";
 import { useLatencyContext } from "./LatencyContext";
-
-/**
- * Extract function name from a FunctionReference for logging.
- * Falls back to a generic name if extraction fails.
- */
-function getFunctionName(fn: FunctionReference<any, any, any>): string {
-  // FunctionReference has a hidden property for the name
-  // We'll try to extract it, fallback to toString
-  try {
-    const str = String(fn);
-    // Convex function refs often stringify to something like "api.messages.sendMessage"
-    if (str.includes(".")) {
-      return str;
-    }
-    // Try to access internal property
-    if ((fn as any)._name) {
-      return (fn as any)._name;
-    }
-    return "unknown";
-  } catch {
-    return "unknown";
-  }
-}
+import { functionNameOf } from "./tracked-client";
 
 /**
  * Tracked version of useMutation.
@@ -55,7 +33,7 @@ export function useTrackedMutation<Mutation extends FunctionReference<"mutation"
 ): ReactMutation<Mutation> {
   const baseMutation = useConvexMutation(mutation);
   const latencyCtx = useLatencyContext();
-  const functionName = getFunctionName(mutation);
+  const functionName = functionNameOf(mutation);
 
   return useCallback(
     async (args: FunctionArgs<Mutation>): Promise<FunctionReturnType<Mutation>> => {
@@ -103,7 +81,7 @@ export function useTrackedAction<Action extends FunctionReference<"action">>(
 ): ReactAction<Action> {
   const baseAction = useConvexAction(action);
   const latencyCtx = useLatencyContext();
-  const functionName = getFunctionName(action);
+  const functionName = functionNameOf(action);
 
   return useCallback(
     async (args: FunctionArgs<Action>): Promise<FunctionReturnType<Action>> => {
@@ -153,7 +131,7 @@ export function useTrackedQuery<Query extends FunctionReference<"query">>(
 ): FunctionReturnType<Query> | undefined {
   const result = useConvexQuery(query, args);
   const latencyCtx = useLatencyContext();
-  const functionName = getFunctionName(query);
+  const functionName = functionNameOf(query);
 
   // Track time to first result
   const startTimeRef = useRef<number | null>(null);
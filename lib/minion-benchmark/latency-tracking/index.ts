@@ -35,8 +35,15 @@ export type {
   LatencyRecord,
   LatencyMetrics,
   TypeMetrics,
+  FunctionMetrics,
   LatencyReporterConfig,
   LatencyContextValue,
+  MetricsCollector,
+  MetricsSnapshot,
+  TypeSnapshot,
+  FunctionSnapshot,
+  HistogramSnapshot,
+  TimeSeriesBucket,
 } from "./types";
 
 // Context and Provider
@@ -55,5 +62,34 @@ export {
   useRecordLatency,
 } from "./hooks";
 
-// Metrics collector (for advanced use)
+// Tracked ConvexClient / ConvexHttpClient for headless runs
+export {
+  trackConvexClient,
+  functionNameOf,
+  type LatencySink,
+  type TrackedClientOptions,
+} from "./tracked-client";
+
+// Subscription propagation (reactive fan-out) latency
+export {
+  PropagationTracker,
+  createStamp,
+  type PropagationStamp,
+  type PropagationTrackerOptions,
+} from "./propagation";
+
+// Metrics collectors (for advanced use)
 export { LatencyMetricsCollector } from "./metrics-collector";
+export {
+  HistogramMetricsCollector,
+  mergeSnapshots,
+  metricsFromSnapshot,
+  type HistogramCollectorOptions,
+} from "./histogram-collector";
+export {
+  LatencyHistogram,
+  DEFAULT_LATENCY_BUCKETS_MS,
+  type HistogramOptions,
+} from "./histogram";
+export { TimeSeriesCollector, type TimeSeriesOptions } from "./time-series";
+export { OtlpExporter, type OtlpExporterConfig, type SpanAttributes } from "./otlp-exporter";
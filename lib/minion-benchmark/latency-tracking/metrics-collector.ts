@@ -2,24 +2,45 @@
  * Latency Metrics Collector
  *
  * Collects latency records and computes aggregate metrics.
+ * Keeps every record, so percentiles are exact but memory grows with the
+ * run; use HistogramMetricsCollector for long soaks.
  */
 
 import type {
   LatencyRecord,
   LatencyMetrics,
   TypeMetrics,
+  FunctionMetrics,
   ConvexOperationType,
+  MetricsCollector,
+  MetricsSnapshot,
+  TimeSeriesBucket,
 } from "./types";
+import { snapshotFromRecords } from "./histogram-collector";
+import { TimeSeriesCollector, type TimeSeriesOptions } from "./time-series";
 
-export class LatencyMetricsCollector {
+/** Propagation and update observations are reported under byType only */
+function isOperation(rec: LatencyRecord): boolean {
+  return rec.type !== "propagation" && rec.type !== "update";
+}
+
+export class LatencyMetricsCollector implements MetricsCollector {
   private records: LatencyRecord[] = [];
   private startTime: number = Date.now();
+  private timeSeries: TimeSeriesCollector;
+
+  constructor(timeSeriesOptions: TimeSeriesOptions = {}) {
+    this.timeSeries = new TimeSeriesCollector(timeSeriesOptions);
+  }
 
   /**
    * Add a latency record.
    */
   record(rec: LatencyRecord): void {
     this.records.push(rec);
+    if (isOperation(rec)) {
+      this.timeSeries.record(rec);
+    }
   }
 
   /**
@@ -49,6 +70,21 @@ export class LatencyMetricsCollector {
   reset(): void {
     this.records = [];
     this.startTime = Date.now();
+    this.timeSeries.reset();
+  }
+
+  /**
+   * Mergeable snapshot built from all records.
+   */
+  getSnapshot(): MetricsSnapshot {
+    return snapshotFromRecords(this.records, this.startTime);
+  }
+
+  /**
+   * Per-interval buckets since the last reset.
+   */
+  getTimeSeries(intervalMs?: number): TimeSeriesBucket[] {
+    return this.timeSeries.getBuckets(intervalMs);
   }
 
   /**
@@ -58,9 +94,11 @@ export class LatencyMetricsCollector {
     const now = Date.now();
     const windowSeconds = Math.max(1, (now - this.startTime) / 1000);
 
+    const operations = this.records.filter(isOperation);
+
     // Separate by success/failure
-    const successful = this.records.filter((r) => r.success);
-    const failed = this.records.filter((r) => !r.success);
+    const successful = operations.filter((r) => r.success);
+    const failed = operations.filter((r) => !r.success);
 
     // All latencies (successful only for percentiles)
     const latencies = successful.map((r) => r.latencyMs).sort((a, b) => a - b);
@@ -90,12 +128,39 @@ export class LatencyMetricsCollector {
         successCount: typeSuccess.length,
         errorCount: typeRecords.length - typeSuccess.length,
         latencyMean: mean(typeLatencies),
+        latencyP50: percentile(typeLatencies, 0.5),
         latencyP95: percentile(typeLatencies, 0.95),
+        latencyP99: percentile(typeLatencies, 0.99),
+        latencyMax: typeLatencies.length > 0 ? typeLatencies[typeLatencies.length - 1] : 0,
       };
     };
 
+    // Compute per-function metrics
+    const byFunction: Record<string, FunctionMetrics> = {};
+    const functionNames = new Set(operations.map((r) => r.functionName));
+    for (const name of functionNames) {
+      const fnRecords = operations.filter((r) => r.functionName === name);
+      const fnLatencies = fnRecords
+        .filter((r) => r.success)
+        .map((r) => r.latencyMs)
+        .sort((a, b) => a - b);
+
+      byFunction[name] = {
+        type: fnRecords[fnRecords.length - 1].type,
+        count: fnRecords.length,
+        successCount: fnLatencies.length,
+        errorCount: fnRecords.length - fnLatencies.length,
+        latencyP50: percentile(fnLatencies, 0.5),
+        latencyP95: percentile(fnLatencies, 0.95),
+        latencyP99: percentile(fnLatencies, 0.99),
+        latencyMin: fnLatencies.length > 0 ? fnLatencies[0] : 0,
+        latencyMax: fnLatencies.length > 0 ? fnLatencies[fnLatencies.length - 1] : 0,
+        latencyMean: mean(fnLatencies),
+      };
+    }
+
     return {
-      totalCount: this.records.length,
+      totalCount: operations.length,
       successCount: successful.length,
       errorCount: failed.length,
       latencyP50: percentile(latencies, 0.5),
@@ -104,12 +169,15 @@ export class LatencyMetricsCollector {
       latencyMin: latencies.length > 0 ? latencies[0] : 0,
       latencyMax: latencies.length > 0 ? latencies[latencies.length - 1] : 0,
       latencyMean: mean(latencies),
-      opsPerSecond: this.records.length / windowSeconds,
+      opsPerSecond: operations.length / windowSeconds,
       byType: {
         query: computeTypeMetrics("query"),
         mutation: computeTypeMetrics("mutation"),
         action: computeTypeMetrics("action"),
+        propagation: computeTypeMetrics("propagation"),
+        update: computeTypeMetrics("update"),
       },
+      byFunction,
     };
   }
 }
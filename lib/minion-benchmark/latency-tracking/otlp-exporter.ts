@@ -0,0 +1,260 @@
+/**
+ * OTLP Exporter
+ *
+ * Exports tracked Convex calls as OpenTelemetry spans, and collector
+ * snapshots as OpenTelemetry metrics, over OTLP/HTTP with JSON encoding.
+ * Works in the browser and in Node without the OpenTelemetry SDK, so minion
+ * load can be correlated with backend traces in an existing collector.
+ */
+
+import type { HistogramSnapshot, LatencyRecord, MetricsSnapshot } from "./types";
+import { LatencyHistogram, DEFAULT_LATENCY_BUCKETS_MS } from "./histogram";
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface OtlpExporterConfig {
+  /** Base OTLP/HTTP URL, e.g. "http://localhost:4318" (spans go to /v1/traces) */
+  endpoint: string;
+  /** service.name resource attribute (default: "minion-benchmark") */
+  serviceName?: string;
+  /** Extra resource attributes, e.g. { "deployment.environment": "staging" } */
+  resourceAttributes?: SpanAttributes;
+  /** Extra HTTP headers, e.g. for collector authentication */
+  headers?: Record<string, string>;
+  /** Flush interval in milliseconds (default: 5000) */
+  flushIntervalMs?: number;
+  /** Maximum spans to buffer before auto-flush (default: 512) */
+  maxBatchSize?: number;
+  /** Histogram bucket bounds in milliseconds for exported metrics */
+  bucketsMs?: number[];
+}
+
+type AnyValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+interface KeyValue {
+  key: string;
+  value: AnyValue;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: KeyValue[];
+  status: { code: number; message?: string };
+}
+
+const SPAN_KIND_CLIENT = 3;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+const AGGREGATION_CUMULATIVE = 2;
+const SCOPE = { name: "minion-benchmark" };
+
+function toAnyValue(value: string | number | boolean): AnyValue {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toKeyValues(attributes: SpanAttributes): KeyValue[] {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toAnyValue(value) }));
+}
+
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms * 1000)) * BigInt(1000)).toString();
+}
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  crypto.getRandomValues(values);
+  return Array.from(values, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export class OtlpExporter {
+  private readonly config: OtlpExporterConfig;
+  private readonly maxBatchSize: number;
+  private readonly resource: { attributes: KeyValue[] };
+  private attributes: SpanAttributes = {};
+  private spans: OtlpSpan[] = [];
+  private timer: ReturnType<typeof setInterval> | null;
+
+  constructor(config: OtlpExporterConfig) {
+    this.config = config;
+    this.maxBatchSize = config.maxBatchSize ?? 512;
+    this.resource = {
+      attributes: toKeyValues({
+        "service.name": config.serviceName ?? "minion-benchmark",
+        ...config.resourceAttributes,
+      }),
+    };
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, config.flushIntervalMs ?? 5000);
+    // Don't keep a Node process alive just to flush
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Attributes added to every subsequent span, e.g. the running behavior
+   * and seed. Merged over previously set attributes.
+   */
+  setAttributes(attributes: SpanAttributes): void {
+    this.attributes = { ...this.attributes, ...attributes };
+  }
+
+  /**
+   * Queue a span for a tracked Convex call.
+   * @param attributes - Extra attributes for this span only (e.g. worker seed)
+   */
+  recordSpan(rec: LatencyRecord, attributes: SpanAttributes = {}): void {
+    const spanAttributes: SpanAttributes = {
+      ...this.attributes,
+      "convex.function": rec.functionName,
+      "convex.operation_type": rec.type,
+      ...attributes,
+    };
+    if (rec.workerId !== undefined) {
+      spanAttributes["minion.worker_id"] = rec.workerId;
+    }
+
+    this.spans.push({
+      traceId: randomHex(16),
+      spanId: randomHex(8),
+      name: rec.functionName,
+      kind: SPAN_KIND_CLIENT,
+      startTimeUnixNano: toUnixNano(rec.timestamp),
+      endTimeUnixNano: toUnixNano(rec.timestamp + rec.latencyMs),
+      attributes: toKeyValues(spanAttributes),
+      status: rec.success ? { code: STATUS_OK } : { code: STATUS_ERROR, message: rec.error },
+    });
+
+    if (this.spans.length >= this.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send buffered spans to /v1/traces.
+   */
+  async flush(): Promise<void> {
+    if (this.spans.length === 0) return;
+    const spans = this.spans;
+    // Clear before async to avoid double-flush
+    this.spans = [];
+
+    await this.post("/v1/traces", {
+      resourceSpans: [{ resource: this.resource, scopeSpans: [{ scope: SCOPE, spans }] }],
+    });
+  }
+
+  /**
+   * Send a collector snapshot to /v1/metrics as cumulative per-function
+   * latency histograms and operation/error counters.
+   * @param attributes - Extra attributes for every data point
+   */
+  async exportMetrics(snapshot: MetricsSnapshot, attributes: SpanAttributes = {}): Promise<void> {
+    const bounds = this.config.bucketsMs ?? DEFAULT_LATENCY_BUCKETS_MS;
+    const start = toUnixNano(snapshot.startTime);
+    const time = toUnixNano(snapshot.endTime);
+    const functions = Object.entries(snapshot.byFunction).map(([name, fn]) => ({
+      fn,
+      attributes: toKeyValues({
+        ...this.attributes,
+        "convex.function": name,
+        "convex.operation_type": fn.type,
+        ...attributes,
+      }),
+    }));
+
+    const counter = (name: string, description: string, value: (i: number) => number) => ({
+      name,
+      description,
+      sum: {
+        aggregationTemporality: AGGREGATION_CUMULATIVE,
+        isMonotonic: true,
+        dataPoints: functions.map((entry, i) => ({
+          attributes: entry.attributes,
+          startTimeUnixNano: start,
+          timeUnixNano: time,
+          asInt: String(value(i)),
+        })),
+      },
+    });
+
+    const metrics = [
+      {
+        name: "minion.operation.duration",
+        description: "Latency of successful operations",
+        unit: "ms",
+        histogram: {
+          aggregationTemporality: AGGREGATION_CUMULATIVE,
+          dataPoints: functions.map(({ fn, attributes: pointAttributes }) => ({
+            attributes: pointAttributes,
+            startTimeUnixNano: start,
+            timeUnixNano: time,
+            ...histogramPoint(fn.latency, bounds),
+          })),
+        },
+      },
+      counter("minion.operations", "Operations reported by workers", (i) => functions[i].fn.count),
+      counter("minion.operation.errors", "Failed operations", (i) => functions[i].fn.errorCount),
+    ];
+
+    await this.post("/v1/metrics", {
+      resourceMetrics: [{ resource: this.resource, scopeMetrics: [{ scope: SCOPE, metrics }] }],
+    });
+  }
+
+  /**
+   * Stop the flush timer and send anything still buffered.
+   */
+  async shutdown(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  private async post(path: string, body: unknown): Promise<void> {
+    const url = this.config.endpoint.replace(/\/+$/, "") + path;
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...this.config.headers },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        console.error(`[OtlpExporter] Export to ${path} failed: ${response.status}`);
+      }
+    } catch (err) {
+      console.error("[OtlpExporter] Export error:", err);
+    }
+  }
+}
+
+/**
+ * Explicit-bucket histogram fields for one OTLP data point.
+ */
+function histogramPoint(latency: HistogramSnapshot, bounds: number[]) {
+  const histogram = LatencyHistogram.fromSnapshot(latency);
+  const bucketCounts: string[] = [];
+  let previous = 0;
+  for (const bound of bounds) {
+    const cumulative = histogram.getCountAtOrBelow(bound);
+    bucketCounts.push(String(cumulative - previous));
+    previous = cumulative;
+  }
+  bucketCounts.push(String(latency.totalCount - previous));
+
+  return {
+    count: String(latency.totalCount),
+    sum: latency.sum,
+    bucketCounts,
+    explicitBounds: bounds,
+    ...(latency.totalCount > 0 ? { min: latency.min, max: latency.max } : {}),
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Subscription Propagation Latency
+ *
+ * Measures reactive fan-out. Writers attach a PropagationStamp (a
+ * correlation id plus the client's send time) to the documents they write;
+ * every subscriber passes the stamps in each query result to a
+ * PropagationTracker, which records how long each new stamp took to appear
+ * as a "propagation" LatencyRecord.
+ *
+ * Latency is the subscriber's clock minus the writer's, so writers and
+ * subscribers in different processes need synchronized clocks.
+ */
+
+import type { LatencyRecord } from "./types";
+import type { LatencySink } from "./tracked-client";
+
+/**
+ * Correlation id and send time attached to a write.
+ */
+export interface PropagationStamp {
+  id: string;
+  /** Writer's clock when the mutation was sent (epoch ms) */
+  sentAt: number;
+}
+
+export interface PropagationTrackerOptions {
+  /** Subscribed query the records are attributed to, e.g. "items:listItems" */
+  functionName: string;
+  /** Stamped on every record (headless multi-worker runs) */
+  workerId?: number;
+}
+
+// Unique per process so stamps from several runners never collide
+const SESSION_ID = Math.random().toString(36).slice(2, 8);
+let stampCounter = 0;
+
+/**
+ * New stamp for a write about to be sent.
+ */
+export function createStamp(now: number = Date.now()): PropagationStamp {
+  stampCounter++;
+  return { id: `${SESSION_ID}-${stampCounter.toString(36)}`, sentAt: now };
+}
+
+/**
+ * Tracks the stamps one subscription has seen. The first result only sets
+ * the baseline (it is the initial load, not a pushed update); after that,
+ * every stamp that was not in the previous result is recorded once.
+ */
+export class PropagationTracker {
+  private readonly record: (rec: LatencyRecord) => void;
+  private readonly options: PropagationTrackerOptions;
+  private readonly startTime = Date.now();
+  private seen: Set<string> | undefined;
+
+  constructor(sink: LatencySink, options: PropagationTrackerOptions) {
+    this.record = typeof sink === "function" ? sink : (rec) => sink.record(rec);
+    this.options = options;
+  }
+
+  /**
+   * Feed the stamps of one subscription result (undefined for unstamped documents).
+   * @returns Number of propagation records made
+   */
+  observe(stamps: Array<PropagationStamp | undefined>, now: number = Date.now()): number {
+    const current = new Set<string>();
+    let recorded = 0;
+    for (const stamp of stamps) {
+      if (!stamp) continue;
+      current.add(stamp.id);
+      // Older stamps re-entering the result (e.g. after a filter change) aren't new writes
+      if (!this.seen || this.seen.has(stamp.id) || stamp.sentAt < this.startTime) continue;
+      this.record({
+        type: "propagation",
+        functionName: this.options.functionName,
+        latencyMs: Math.max(0, now - stamp.sentAt),
+        success: true,
+        timestamp: stamp.sentAt,
+        workerId: this.options.workerId,
+      });
+      recorded++;
+    }
+    this.seen = current;
+    return recorded;
+  }
+
+  /** Forget seen stamps; the next result becomes the new baseline */
+  reset(): void {
+    this.seen = undefined;
+  }
+}
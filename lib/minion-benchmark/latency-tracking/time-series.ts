@@ -0,0 +1,155 @@
+/**
+ * Time-Series Metrics
+ *
+ * Rolling per-interval buckets of latency, throughput and error rate, so a
+ * run can be inspected over time (warmup, GC pauses, throttling) instead of
+ * as one cumulative aggregate. Records are bucketed by completion time at a
+ * fixed resolution; coarser windows are produced by merging buckets.
+ */
+
+import type { HistogramSnapshot, LatencyRecord, TimeSeriesBucket } from "./types";
+import { LatencyHistogram } from "./histogram";
+
+export interface TimeSeriesOptions {
+  /** Width of the finest bucket in milliseconds (default: 1000) */
+  resolutionMs?: number;
+  /** Number of finest buckets kept; older ones are dropped (default: 3600) */
+  retention?: number;
+  /** Histogram precision per bucket (default: 2 significant digits) */
+  significantDigits?: number;
+}
+
+interface ClosedBucket {
+  start: number;
+  count: number;
+  successCount: number;
+  latency: HistogramSnapshot;
+}
+
+export class TimeSeriesCollector {
+  private readonly resolutionMs: number;
+  private readonly retention: number;
+  private readonly live: LatencyHistogram;
+  private closed: ClosedBucket[] = [];
+  private liveStart: number | null = null;
+  private liveCount = 0;
+  private liveSuccess = 0;
+
+  constructor(options: TimeSeriesOptions = {}) {
+    this.resolutionMs = options.resolutionMs ?? 1000;
+    this.retention = options.retention ?? 3600;
+    this.live = new LatencyHistogram({ significantDigits: options.significantDigits ?? 2 });
+  }
+
+  /**
+   * Count a record in the bucket for the current time.
+   */
+  record(rec: LatencyRecord, now: number = Date.now()): void {
+    const start = Math.floor(now / this.resolutionMs) * this.resolutionMs;
+    if (this.liveStart !== start) {
+      this.roll(start);
+    }
+    this.liveCount++;
+    if (rec.success) {
+      this.liveSuccess++;
+      this.live.record(rec.latencyMs);
+    }
+  }
+
+  /**
+   * Buckets of `intervalMs` (rounded to a multiple of the resolution),
+   * oldest first, from the first retained bucket up to now. Intervals with
+   * no operations are included with zero counts. The last bucket is marked
+   * partial while its interval is still in progress.
+   */
+  getBuckets(intervalMs: number = this.resolutionMs, now: number = Date.now()): TimeSeriesBucket[] {
+    const width = Math.max(1, Math.round(intervalMs / this.resolutionMs)) * this.resolutionMs;
+    const raw = [...this.closed];
+    if (this.liveStart !== null) {
+      raw.push({
+        start: this.liveStart,
+        count: this.liveCount,
+        successCount: this.liveSuccess,
+        latency: this.live.snapshot(),
+      });
+    }
+    if (raw.length === 0) return [];
+
+    const groups = new Map<number, ClosedBucket[]>();
+    for (const bucket of raw) {
+      const key = Math.floor(bucket.start / width) * width;
+      const group = groups.get(key);
+      if (group) group.push(bucket);
+      else groups.set(key, [bucket]);
+    }
+
+    const result: TimeSeriesBucket[] = [];
+    const first = Math.floor(raw[0].start / width) * width;
+    for (let start = first; start <= now; start += width) {
+      result.push(this.summarize(start, width, groups.get(start) ?? [], now));
+    }
+    return result;
+  }
+
+  reset(): void {
+    this.closed = [];
+    this.liveStart = null;
+    this.liveCount = 0;
+    this.liveSuccess = 0;
+    this.live.reset();
+  }
+
+  private roll(start: number): void {
+    if (this.liveStart !== null && this.liveCount > 0) {
+      this.closed.push({
+        start: this.liveStart,
+        count: this.liveCount,
+        successCount: this.liveSuccess,
+        latency: this.live.snapshot(),
+      });
+      if (this.closed.length > this.retention) {
+        this.closed.splice(0, this.closed.length - this.retention);
+      }
+    }
+    this.liveStart = start;
+    this.liveCount = 0;
+    this.liveSuccess = 0;
+    this.live.reset();
+  }
+
+  private summarize(
+    start: number,
+    width: number,
+    parts: ClosedBucket[],
+    now: number
+  ): TimeSeriesBucket {
+    const histogram = new LatencyHistogram({ significantDigits: this.live.significantDigits });
+    let count = 0;
+    let successCount = 0;
+    for (const part of parts) {
+      count += part.count;
+      successCount += part.successCount;
+      histogram.add(LatencyHistogram.fromSnapshot(part.latency));
+    }
+    const end = start + width;
+    const partial = end > now;
+    const elapsedSeconds = Math.max(0.001, (Math.min(end, now) - start) / 1000);
+    const errorCount = count - successCount;
+
+    return {
+      start,
+      end,
+      partial,
+      count,
+      successCount,
+      errorCount,
+      errorRate: count > 0 ? errorCount / count : 0,
+      opsPerSecond: count / elapsedSeconds,
+      latencyP50: histogram.getValueAtPercentile(0.5),
+      latencyP95: histogram.getValueAtPercentile(0.95),
+      latencyP99: histogram.getValueAtPercentile(0.99),
+      latencyMax: histogram.getMax(),
+      latencyMean: histogram.getMean(),
+    };
+  }
+}
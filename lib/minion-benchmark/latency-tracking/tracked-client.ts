@@ -0,0 +1,152 @@
+/**
+ * Latency-Tracked Convex Clients
+ *
+ * The headless counterpart of the tracked hooks: wraps a ConvexClient or
+ * ConvexHttpClient (or a ConvexReactClient, for one-shot calls made outside
+ * hooks) so every query, mutation and action call, and the first
+ * result of every onUpdate subscription, produces a LatencyRecord; later
+ * subscription results produce "update" records. Records use the same
+ * function names and semantics as the hooks, so browser and headless runs
+ * report identical metrics.
+ */
+
+import type { ConvexClient, ConvexHttpClient } from "convex/browser";
+import type { ConvexReactClient } from "convex/react";
+import { getFunctionName, type FunctionReference } from "convex/server";
+import type { ConvexOperationType, LatencyRecord, MetricsCollector } from "./types";
+
+/**
+ * Where tracked records go: a collector, or any callback
+ * (e.g. a worker's record function or an OTLP exporter).
+ */
+export type LatencySink = Pick<MetricsCollector, "record"> | ((rec: LatencyRecord) => void);
+
+export interface TrackedClientOptions {
+  /** Stamped on every record (headless multi-worker runs) */
+  workerId?: number;
+}
+
+/**
+ * Convex function name of a reference, e.g. "items:createItem".
+ */
+export function functionNameOf(fn: FunctionReference<any, any, any>): string {
+  try {
+    return getFunctionName(fn);
+  } catch {
+    return "unknown";
+  }
+}
+
+/** The client methods being wrapped, called with the client as `this` */
+type ClientCalls = Record<"query" | "mutation" | "action" | "onUpdate", (...args: any[]) => any>;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Wrap a client so its calls are latency-tracked. The returned object has
+ * the client's type and can be used in its place; the wrapped client is not
+ * modified, so one shared client can be wrapped once per worker.
+ *
+ * Subscriptions record time-to-first-result as a query, like useTrackedQuery.
+ * Later updates are pushed by the server and have no request to time; each
+ * is recorded as an "update", timed from the subscription's previous result.
+ *
+ * @example
+ * ```ts
+ * const collector = new HistogramMetricsCollector();
+ * const client = trackConvexClient(new ConvexClient(url), collector);
+ * await client.mutation(api.items.createItem, { title: "x" }); // recorded
+ * ```
+ */
+export function trackConvexClient<C extends ConvexClient | ConvexHttpClient | ConvexReactClient>(
+  client: C,
+  sink: LatencySink,
+  options: TrackedClientOptions = {}
+): C {
+  const record = typeof sink === "function" ? sink : (rec: LatencyRecord) => sink.record(rec);
+  const calls = client as unknown as ClientCalls;
+
+  const emit = (
+    type: ConvexOperationType,
+    fn: FunctionReference<any, any, any>,
+    startTime: number,
+    startedAt: number,
+    error?: string
+  ) => {
+    record({
+      type,
+      functionName: functionNameOf(fn),
+      latencyMs: Math.round(performance.now() - startTime),
+      success: error === undefined,
+      timestamp: startedAt,
+      error,
+      workerId: options.workerId,
+    });
+  };
+
+  const timed =
+    (type: "query" | "mutation" | "action") =>
+    async (fn: FunctionReference<any, any, any>, ...args: unknown[]) => {
+      const startTime = performance.now();
+      const startedAt = Date.now();
+      let error: string | undefined;
+      try {
+        return await calls[type](fn, ...args);
+      } catch (err) {
+        error = errorMessage(err);
+        throw err;
+      } finally {
+        emit(type, fn, startTime, startedAt, error);
+      }
+    };
+
+  const wrapped: Record<PropertyKey, unknown> = {
+    query: timed("query"),
+    mutation: timed("mutation"),
+    action: timed("action"),
+  };
+
+  if ("onUpdate" in client) {
+    wrapped.onUpdate = (
+      fn: FunctionReference<"query">,
+      args: Record<string, unknown>,
+      callback: (result: unknown) => unknown,
+      onError?: (e: Error) => unknown
+    ) => {
+      // Start of the current wait: the subscription, then the previous result
+      let startTime = performance.now();
+      let startedAt = Date.now();
+      let first = true;
+      const emitResult = (error?: string) => {
+        emit(first ? "query" : "update", fn, startTime, startedAt, error);
+        first = false;
+        startTime = performance.now();
+        startedAt = Date.now();
+      };
+      return calls.onUpdate(
+        fn,
+        args,
+        (result: unknown) => {
+          emitResult();
+          return callback(result);
+        },
+        (e: Error) => {
+          emitResult(e.message);
+          if (onError) return onError(e);
+          // Same as ConvexClient without an onError handler
+          void Promise.reject(e);
+        }
+      );
+    };
+  }
+
+  return new Proxy(client, {
+    get(target, prop) {
+      if (prop in wrapped) return wrapped[prop];
+      const value = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
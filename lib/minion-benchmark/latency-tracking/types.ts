@@ -4,7 +4,14 @@
  * Types for automatic latency tracking of Convex operations.
  */
 
-export type ConvexOperationType = "query" | "mutation" | "action";
+/**
+ * Kind of record. "propagation" and "update" records are not calls but
+ * observations: how long a write took to reach a subscriber (see
+ * PropagationTracker), and subscription results after the first, timed from
+ * the previous result. They are kept out of the operation totals, time series
+ * and per-function stats and only appear under their byType entry.
+ */
+export type ConvexOperationType = "query" | "mutation" | "action" | "propagation" | "update";
 
 export interface LatencyRecord {
   /** Type of Convex operation */
@@ -19,6 +26,8 @@ export interface LatencyRecord {
   timestamp: number;
   /** Error message if failed */
   error?: string;
+  /** Worker that issued the operation (headless multi-worker runs) */
+  workerId?: number;
 }
 
 export interface LatencyMetrics {
@@ -42,7 +51,13 @@ export interface LatencyMetrics {
     query: TypeMetrics;
     mutation: TypeMetrics;
     action: TypeMetrics;
+    /** Subscription propagation latency (not included in the totals above) */
+    propagation: TypeMetrics;
+    /** Time between a subscription's results after the first (not included in the totals above) */
+    update: TypeMetrics;
   };
+  /** Breakdown by Convex function name (e.g. "items:createItem") */
+  byFunction: Record<string, FunctionMetrics>;
 }
 
 export interface TypeMetrics {
@@ -50,7 +65,119 @@ export interface TypeMetrics {
   successCount: number;
   errorCount: number;
   latencyMean: number;
+  latencyP50: number;
+  latencyP95: number;
+  latencyP99: number;
+  latencyMax: number;
+}
+
+export interface FunctionMetrics {
+  /** Operation type of the function's most recent record */
+  type: ConvexOperationType;
+  count: number;
+  successCount: number;
+  errorCount: number;
+  latencyP50: number;
+  latencyP95: number;
+  latencyP99: number;
+  latencyMin: number;
+  latencyMax: number;
+  latencyMean: number;
+}
+
+/**
+ * Serializable histogram (see LatencyHistogram.snapshot()).
+ */
+export interface HistogramSnapshot {
+  significantDigits: number;
+  highestTrackableValue: number;
+  totalCount: number;
+  sum: number;
+  min: number;
+  max: number;
+  /** Non-empty buckets as [bucket index, count] pairs */
+  counts: Array<[number, number]>;
+}
+
+/**
+ * Mergeable, serializable summary of a collector's data.
+ * Snapshots from many workers can be merged with mergeSnapshots()
+ * to get exact combined percentiles.
+ */
+export interface MetricsSnapshot {
+  /** When collection started (epoch ms) */
+  startTime: number;
+  /** When the snapshot was taken (epoch ms) */
+  endTime: number;
+  totalCount: number;
+  successCount: number;
+  errorCount: number;
+  /** Latencies of successful operations */
+  latency: HistogramSnapshot;
+  /** Snapshots taken before propagation or update tracking have no entry for them */
+  byType: Record<ConvexOperationType, TypeSnapshot>;
+  byFunction: Record<string, FunctionSnapshot>;
+  /** Failed operations by error message (records without a message are not counted) */
+  errorMessages: Record<string, number>;
+}
+
+export interface TypeSnapshot {
+  count: number;
+  successCount: number;
+  errorCount: number;
+  latency: HistogramSnapshot;
+}
+
+export interface FunctionSnapshot extends TypeSnapshot {
+  type: ConvexOperationType;
+}
+
+/**
+ * Metrics for one time window of a run (see TimeSeriesCollector).
+ */
+export interface TimeSeriesBucket {
+  /** Window start (epoch ms) */
+  start: number;
+  /** Window end (epoch ms, exclusive) */
+  end: number;
+  /** Whether the window is still in progress */
+  partial: boolean;
+  /** Operations completed in the window */
+  count: number;
+  successCount: number;
+  errorCount: number;
+  /** errorCount / count (0 when empty) */
+  errorRate: number;
+  /** Completions per second over the window (elapsed part if partial) */
+  opsPerSecond: number;
+  latencyP50: number;
   latencyP95: number;
+  latencyP99: number;
+  latencyMax: number;
+  latencyMean: number;
+}
+
+/**
+ * Common interface of LatencyMetricsCollector (exact, keeps every record)
+ * and HistogramMetricsCollector (bounded memory).
+ */
+export interface MetricsCollector {
+  /** Add a latency record */
+  record(rec: LatencyRecord): void;
+  /** Records buffered since the last clearRecords() */
+  getRecords(): LatencyRecord[];
+  /** Clear buffered records (after flush) */
+  clearRecords(): void;
+  /** Number of buffered records */
+  getCount(): number;
+  /** Reset all state */
+  reset(): void;
+  /** Aggregate metrics since the last reset */
+  getMetrics(): LatencyMetrics;
+  /** Mergeable snapshot of the aggregate */
+  getSnapshot(): MetricsSnapshot;
+  /** Per-interval buckets over the run, oldest first */
+  getTimeSeries(intervalMs?: number): TimeSeriesBucket[];
 }
 
 export interface LatencyReporterConfig {
@@ -77,6 +204,10 @@ export interface LatencyContextValue {
   getMetrics: () => LatencyMetrics;
   /** Get all buffered records */
   getRecords: () => LatencyRecord[];
+  /** Get a mergeable snapshot of the aggregate metrics */
+  getSnapshot: () => MetricsSnapshot;
+  /** Get per-interval metrics over time (default: 1s buckets) */
+  getTimeSeries: (intervalMs?: number) => TimeSeriesBucket[];
   /** Manually flush records to reporter */
   flush: () => Promise<void>;
   /** Reset all metrics */
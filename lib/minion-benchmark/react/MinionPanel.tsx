@@ -1,4 +1,10 @@
+import { useMemo, useState } from "react";
 import type { MinionBehavior, BaseMinionContext } from "../types";
+import { parseDuration, type RunLimits } from "../run-limits";
+import { extractConfigSchema, type ConfigFieldSchema } from "../schema-utils";
+
+/** Config input values as entered, by field name */
+type ConfigInputs = Record<string, string | boolean>;
 
 export interface MinionPanelProps<TContext extends BaseMinionContext = BaseMinionContext> {
   /** Record of behavior name -> behavior definition */
@@ -9,8 +15,12 @@ export interface MinionPanelProps<TContext extends BaseMinionContext = BaseMinio
   onSelectBehavior: (name: string) => void;
   /** Whether a behavior is currently running */
   isRunning: boolean;
-  /** Callback to start the selected behavior */
-  onStart: () => void;
+  /**
+   * Callback to start the selected behavior, with the entered seed if any,
+   * the entered limits and the entered config (fields left blank keep
+   * their defaults)
+   */
+  onStart: (seed?: number, limits?: RunLimits, config?: Record<string, unknown>) => void;
   /** Callback to stop the running behavior */
   onStop: () => void;
   /** Callback to clear log output */
@@ -28,6 +38,9 @@ export interface MinionPanelProps<TContext extends BaseMinionContext = BaseMinio
  *
  * Provides:
  * - Behavior selector dropdown
+ * - Seed input (blank = time-based seed)
+ * - Duration and operation limits (blank = no limit)
+ * - Config inputs generated from the behavior's configSchema
  * - Start/Stop buttons
  * - Status indicator
  * - Scrollable log output
@@ -48,6 +61,31 @@ export function MinionPanel<TContext extends BaseMinionContext = BaseMinionConte
 }: MinionPanelProps<TContext>) {
   const behaviorNames = Object.keys(behaviors);
   const currentBehavior = behaviors[selectedBehavior];
+  const [seedInput, setSeedInput] = useState("");
+  const seed = seedInput.trim() === "" ? undefined : Number(seedInput);
+  const seedValid = seed === undefined || (Number.isInteger(seed) && seed >= 0 && seed <= 0xffffffff);
+
+  const [durationInput, setDurationInput] = useState("");
+  const [maxOpsInput, setMaxOpsInput] = useState("");
+  const durationMs = parseDurationInput(durationInput);
+  const maxOperations = maxOpsInput.trim() === "" ? undefined : Number(maxOpsInput);
+  const durationValid = !Number.isNaN(durationMs);
+  const maxOpsValid = maxOperations === undefined || (Number.isInteger(maxOperations) && maxOperations > 0);
+  const limits: RunLimits = { durationMs, maxOperations };
+
+  // Entered config, kept per behavior so switching back doesn't lose it
+  const [configInputs, setConfigInputs] = useState<Record<string, ConfigInputs>>({});
+  const configFields = useMemo(() => configFieldsOf(currentBehavior), [currentBehavior]);
+  const inputs = configInputs[selectedBehavior] ?? {};
+  const setInput = (name: string, value: string | boolean) =>
+    setConfigInputs((prev) => ({
+      ...prev,
+      [selectedBehavior]: { ...prev[selectedBehavior], [name]: value },
+    }));
+  // Required fields without a default (e.g. Replay's file) must be filled in
+  const configComplete = configFields.every(
+    (field) => !field.required || (inputs[field.name] ?? "") !== ""
+  );
 
   return (
     <div className={`bg-white rounded-lg shadow p-4 h-full flex flex-col ${className}`}>
@@ -75,6 +113,74 @@ export function MinionPanel<TContext extends BaseMinionContext = BaseMinionConte
         )}
       </div>
 
+      {/* Seed */}
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Seed
+        </label>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={seedInput}
+          onChange={(e) => setSeedInput((e.target as HTMLInputElement).value)}
+          disabled={isRunning}
+          placeholder="Time-based"
+          className={`w-full border rounded-lg px-3 py-2 disabled:opacity-50 ${
+            seedValid ? "" : "border-red-500"
+          }`}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          The same seed repeats the same random choices
+        </p>
+      </div>
+
+      {/* Limits */}
+      <div className="mb-4">
+        <div className="text-sm font-medium text-gray-700 mb-1">Limits</div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={durationInput}
+            onChange={(e) => setDurationInput((e.target as HTMLInputElement).value)}
+            disabled={isRunning}
+            placeholder="Duration, e.g. 5m"
+            className={`w-1/2 border rounded-lg px-2 py-1 text-sm disabled:opacity-50 ${
+              durationValid ? "" : "border-red-500"
+            }`}
+          />
+          <input
+            type="text"
+            inputMode="numeric"
+            value={maxOpsInput}
+            onChange={(e) => setMaxOpsInput((e.target as HTMLInputElement).value)}
+            disabled={isRunning}
+            placeholder="Max operations"
+            className={`w-1/2 border rounded-lg px-2 py-1 text-sm disabled:opacity-50 ${
+              maxOpsValid ? "" : "border-red-500"
+            }`}
+          />
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          The run stops at whichever is reached first; blank means no limit
+        </p>
+      </div>
+
+      {/* Config */}
+      {configFields.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <div className="text-sm font-medium text-gray-700">Config</div>
+          {configFields.map((field) => (
+            <ConfigInput
+              key={field.name}
+              field={field}
+              value={inputs[field.name]}
+              onChange={(value) => setInput(field.name, value)}
+              disabled={isRunning}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Control buttons */}
       <div className="flex gap-2 mb-4">
         {isRunning ? (
@@ -86,8 +192,9 @@ export function MinionPanel<TContext extends BaseMinionContext = BaseMinionConte
           </button>
         ) : (
           <button
-            onClick={() => onStart()}
-            className="flex-1 px-4 py-2 bg-green-500 text-white rounded-lg font-medium hover:bg-green-600 transition-colors"
+            onClick={() => onStart(seed, limits, buildConfig(configFields, inputs))}
+            disabled={!seedValid || !durationValid || !maxOpsValid || !configComplete}
+            className="flex-1 px-4 py-2 bg-green-500 text-white rounded-lg font-medium hover:bg-green-600 disabled:opacity-50 transition-colors"
           >
             Start
           </button>
@@ -130,3 +237,106 @@ export function MinionPanel<TContext extends BaseMinionContext = BaseMinionConte
     </div>
   );
 }
+
+/**
+ * Milliseconds for an entered duration such as "30s" or "1m30s"; undefined
+ * when blank, NaN when invalid.
+ */
+function parseDurationInput(input: string): number | undefined {
+  if (input.trim() === "") return undefined;
+  try {
+    const ms = parseDuration(input);
+    return ms > 0 ? ms : Number.NaN;
+  } catch {
+    return Number.NaN;
+  }
+}
+
+/**
+ * Config fields the panel can edit. Array and object fields aren't shown
+ * and keep their defaults.
+ */
+function configFieldsOf(behavior: MinionBehavior<never> | undefined): ConfigFieldSchema[] {
+  if (!behavior?.configSchema) return [];
+  return extractConfigSchema(behavior.configSchema).fields.filter(
+    (field) => field.type !== "array" && field.type !== "object"
+  );
+}
+
+/**
+ * Raw config from the entered values. Blank fields are left out so their
+ * defaults apply; the runner validates the rest against the configSchema.
+ */
+function buildConfig(fields: ConfigFieldSchema[], inputs: ConfigInputs): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = inputs[field.name];
+    if (value === undefined || value === "") continue;
+    config[field.name] = field.type === "number" && typeof value === "string" ? Number(value) : value;
+  }
+  return config;
+}
+
+function ConfigInput({
+  field,
+  value,
+  onChange,
+  disabled,
+}: {
+  field: ConfigFieldSchema;
+  value: string | boolean | undefined;
+  onChange: (value: string | boolean) => void;
+  disabled: boolean;
+}) {
+  const fallback =
+    typeof field.default === "string" || typeof field.default === "number" ? String(field.default) : "";
+
+  if (field.type === "boolean") {
+    return (
+      <label className="flex items-start gap-2 text-sm text-gray-700" title={field.description}>
+        <input
+          type="checkbox"
+          checked={typeof value === "boolean" ? value : field.default === true}
+          onChange={(e) => onChange((e.target as HTMLInputElement).checked)}
+          disabled={disabled}
+          className="mt-1 disabled:opacity-50"
+        />
+        <span>{field.name}</span>
+      </label>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-600" title={field.description}>
+        {field.name}
+        {field.required && " *"}
+      </label>
+      {field.enum ? (
+        <select
+          value={typeof value === "string" ? value : fallback}
+          onChange={(e) => onChange((e.target as HTMLSelectElement).value)}
+          disabled={disabled}
+          className="w-full border rounded-lg px-2 py-1 text-sm disabled:opacity-50"
+        >
+          {field.enum.map((option) => (
+            <option key={String(option)} value={String(option)}>
+              {String(option)}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type="text"
+          inputMode={field.type === "number" ? "decimal" : undefined}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e) => onChange((e.target as HTMLInputElement).value)}
+          disabled={disabled}
+          placeholder={fallback}
+          className="w-full border rounded-lg px-2 py-1 text-sm disabled:opacity-50"
+        />
+      )}
+      {field.description && <p className="text-xs text-gray-500">{field.description}</p>}
+    </div>
+  );
+}
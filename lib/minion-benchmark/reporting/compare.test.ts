@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compareRuns, type MetricComparison, type RunComparison } from "./compare";
+import { buildRunReport, type RunReport } from "./run-report";
+import { HistogramMetricsCollector } from "../latency-tracking/histogram-collector";
+import { SeededRandom } from "../SeededRandom";
+
+interface RunShape {
+  operations: number;
+  /** Multiplies every latency */
+  slowdown?: number;
+  errorRate?: number;
+  durationMs?: number;
+}
+
+function run(seed: number, { operations, slowdown = 1, errorRate = 0, durationMs = 60_000 }: RunShape): RunReport {
+  const random = new SeededRandom(seed);
+  const collector = new HistogramMetricsCollector();
+  for (let i = 0; i < operations; i++) {
+    collector.record({
+      type: "mutation",
+      functionName: "items:createItem",
+      latencyMs: Math.round(random.float(20, 80) * slowdown),
+      success: !random.bool(errorRate),
+      timestamp: i,
+    });
+  }
+  return buildRunReport({
+    metadata: { behaviorKey: "writer", seed, workerCount: 1, startTime: 0, endTime: durationMs, durationMs },
+    snapshot: collector.getSnapshot(),
+  });
+}
+
+function metric(comparison: RunComparison, name: MetricComparison["metric"]): MetricComparison {
+  const found = comparison.scopes[0].metrics.find((m) => m.metric === name);
+  assert.ok(found, name);
+  return found;
+}
+
+describe("compareRuns", () => {
+  it("flags nothing for runs from the same distribution", () => {
+    const comparison = compareRuns(run(1, { operations: 5000 }), run(2, { operations: 5000 }));
+    assert.equal(comparison.regressions, 0);
+    assert.deepEqual(comparison.missingFunctions, []);
+    assert.deepEqual(comparison.newFunctions, []);
+  });
+
+  it("flags a significant latency increase beyond the threshold", () => {
+    const comparison = compareRuns(run(1, { operations: 5000 }), run(2, { operations: 5000, slowdown: 1.5 }));
+    for (const name of ["p50", "p95", "p99"] as const) {
+      const m = metric(comparison, name);
+      assert.ok(m.change > 40, `${name} change ${m.change}`);
+      assert.equal(m.regression, true, name);
+    }
+    // Overall scope and items:createItem
+    assert.equal(comparison.regressions, 6);
+  });
+
+  it("does not flag an increase within the threshold", () => {
+    const comparison = compareRuns(run(1, { operations: 5000 }), run(2, { operations: 5000, slowdown: 1.05 }), {
+      latencyPct: 10,
+    });
+    assert.equal(metric(comparison, "p50").regression, false);
+  });
+
+  it("never flags scopes below minSamples", () => {
+    const comparison = compareRuns(run(1, { operations: 20 }), run(2, { operations: 20, slowdown: 3 }));
+    assert.ok(metric(comparison, "p50").change > 100);
+    assert.equal(comparison.regressions, 0);
+  });
+
+  it("flags throughput drops and error rate increases", () => {
+    const comparison = compareRuns(
+      run(1, { operations: 6000 }),
+      run(2, { operations: 3000, errorRate: 0.05 })
+    );
+    assert.equal(metric(comparison, "throughput").regression, true);
+    assert.equal(metric(comparison, "errorRate").regression, true);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Run Comparison
+ *
+ * Compares a run report against a baseline and flags regressions that are
+ * both larger than a threshold and statistically significant, so pipelines
+ * can gate on benchmark results without eyeballing numbers.
+ *
+ * - Latency percentiles: two-proportion z-test on the share of operations
+ *   at or below the baseline's percentile value (a quantile test computed
+ *   directly from the histograms).
+ * - Throughput: z-test on two Poisson rates.
+ * - Error rate: two-proportion z-test.
+ */
+
+import type { HistogramSnapshot } from "../latency-tracking/types";
+import { LatencyHistogram } from "../latency-tracking/histogram";
+import type { RunMetadata, RunReport } from "./run-report";
+
+export type ComparedMetric = "p50" | "p95" | "p99" | "throughput" | "errorRate";
+
+export interface RegressionThresholds {
+  /** Allowed latency percentile increase, in percent (default: 10) */
+  latencyPct?: number;
+  /** Allowed throughput decrease, in percent (default: 10) */
+  throughputPct?: number;
+  /** Allowed error-rate increase, in percentage points (default: 1) */
+  errorRatePoints?: number;
+  /** Significance level for the one-sided tests (default: 0.01) */
+  alpha?: number;
+  /** Scopes with fewer operations in either run are reported but never flagged (default: 30) */
+  minSamples?: number;
+}
+
+export interface MetricComparison {
+  metric: ComparedMetric;
+  baseline: number;
+  current: number;
+  /**
+   * Change from baseline: percent for latency and throughput,
+   * percentage points for error rate
+   */
+  change: number;
+  /** One-sided p-value for "current is worse than baseline" */
+  pValue: number;
+  significant: boolean;
+  /** Worse than the threshold and significant */
+  regression: boolean;
+}
+
+export interface ScopeComparison {
+  /** Behavior key or Convex function name */
+  name: string;
+  kind: "behavior" | "function";
+  baselineCount: number;
+  currentCount: number;
+  metrics: MetricComparison[];
+}
+
+export interface RunComparison {
+  baseline: RunMetadata;
+  current: RunMetadata;
+  thresholds: Required<RegressionThresholds>;
+  scopes: ScopeComparison[];
+  /** Number of metrics flagged as regressions across all scopes */
+  regressions: number;
+  /** Functions only in the baseline */
+  missingFunctions: string[];
+  /** Functions only in the current run */
+  newFunctions: string[];
+}
+
+const DEFAULT_THRESHOLDS: Required<RegressionThresholds> = {
+  latencyPct: 10,
+  throughputPct: 10,
+  errorRatePoints: 1,
+  alpha: 0.01,
+  minSamples: 30,
+};
+
+const PERCENTILES: Array<["p50" | "p95" | "p99", number]> = [
+  ["p50", 0.5],
+  ["p95", 0.95],
+  ["p99", 0.99],
+];
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7).
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * One-sided p-value that proportion b is greater than proportion a.
+ */
+function proportionIncreasePValue(hitsA: number, nA: number, hitsB: number, nB: number): number {
+  if (nA === 0 || nB === 0) return 1;
+  const pooled = (hitsA + hitsB) / (nA + nB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / nA + 1 / nB));
+  if (se === 0) return 1;
+  const z = (hitsB / nB - hitsA / nA) / se;
+  return 1 - normalCdf(z);
+}
+
+function relativeChange(baseline: number, current: number): number {
+  if (baseline === 0) return current === 0 ? 0 : Infinity;
+  return ((current - baseline) / baseline) * 100;
+}
+
+function compareLatency(
+  baselineSnapshot: HistogramSnapshot,
+  currentSnapshot: HistogramSnapshot,
+  thresholds: Required<RegressionThresholds>,
+  eligible: boolean
+): MetricComparison[] {
+  const baseline = LatencyHistogram.fromSnapshot(baselineSnapshot);
+  const current = LatencyHistogram.fromSnapshot(currentSnapshot);
+  const nA = baseline.getTotalCount();
+  const nB = current.getTotalCount();
+
+  return PERCENTILES.map(([metric, p]) => {
+    const baselineValue = baseline.getValueAtPercentile(p);
+    const currentValue = current.getValueAtPercentile(p);
+    // Share of operations slower than the baseline's percentile value
+    const slowerA = nA - baseline.getCountAtOrBelow(baselineValue);
+    const slowerB = nB - current.getCountAtOrBelow(baselineValue);
+    const pValue = proportionIncreasePValue(slowerA, nA, slowerB, nB);
+    const change = relativeChange(baselineValue, currentValue);
+    const significant = pValue < thresholds.alpha;
+    return {
+      metric,
+      baseline: baselineValue,
+      current: currentValue,
+      change,
+      pValue,
+      significant,
+      regression: eligible && significant && change > thresholds.latencyPct,
+    };
+  });
+}
+
+function compareThroughput(
+  baselineCount: number,
+  baselineSeconds: number,
+  currentCount: number,
+  currentSeconds: number,
+  thresholds: Required<RegressionThresholds>,
+  eligible: boolean
+): MetricComparison {
+  const baseline = baselineCount / baselineSeconds;
+  const current = currentCount / currentSeconds;
+  // Difference of two Poisson rates; variance of each rate is count / time²
+  const se = Math.sqrt(baselineCount / baselineSeconds ** 2 + currentCount / currentSeconds ** 2);
+  const pValue = se > 0 ? normalCdf((current - baseline) / se) : 1;
+  const change = relativeChange(baseline, current);
+  const significant = pValue < thresholds.alpha;
+  return {
+    metric: "throughput",
+    baseline,
+    current,
+    change,
+    pValue,
+    significant,
+    regression: eligible && significant && -change > thresholds.throughputPct,
+  };
+}
+
+function compareErrorRate(
+  baselineErrors: number,
+  baselineCount: number,
+  currentErrors: number,
+  currentCount: number,
+  thresholds: Required<RegressionThresholds>,
+  eligible: boolean
+): MetricComparison {
+  const baseline = baselineCount > 0 ? baselineErrors / baselineCount : 0;
+  const current = currentCount > 0 ? currentErrors / currentCount : 0;
+  const pValue = proportionIncreasePValue(baselineErrors, baselineCount, currentErrors, currentCount);
+  const change = (current - baseline) * 100;
+  const significant = pValue < thresholds.alpha;
+  return {
+    metric: "errorRate",
+    baseline,
+    current,
+    change,
+    pValue,
+    significant,
+    regression: eligible && significant && change > thresholds.errorRatePoints,
+  };
+}
+
+/**
+ * Compare a run against a baseline, overall and per Convex function.
+ */
+export function compareRuns(
+  baseline: RunReport,
+  current: RunReport,
+  thresholds: RegressionThresholds = {}
+): RunComparison {
+  const limits = { ...DEFAULT_THRESHOLDS, ...thresholds };
+  const baselineSeconds = Math.max(1, baseline.metadata.durationMs / 1000);
+  const currentSeconds = Math.max(1, current.metadata.durationMs / 1000);
+
+  const compareScope = (
+    name: string,
+    kind: ScopeComparison["kind"],
+    a: { count: number; errorCount: number; latency: HistogramSnapshot },
+    b: { count: number; errorCount: number; latency: HistogramSnapshot }
+  ): ScopeComparison => {
+    const eligible = a.count >= limits.minSamples && b.count >= limits.minSamples;
+    return {
+      name,
+      kind,
+      baselineCount: a.count,
+      currentCount: b.count,
+      metrics: [
+        ...compareLatency(a.latency, b.latency, limits, eligible),
+        compareThroughput(a.count, baselineSeconds, b.count, currentSeconds, limits, eligible),
+        compareErrorRate(a.errorCount, a.count, b.errorCount, b.count, limits, eligible),
+      ],
+    };
+  };
+
+  const overall = (report: RunReport) => ({
+    count: report.snapshot.totalCount,
+    errorCount: report.snapshot.errorCount,
+    latency: report.snapshot.latency,
+  });
+  const scopes: ScopeComparison[] = [
+    compareScope(current.metadata.behaviorKey, "behavior", overall(baseline), overall(current)),
+  ];
+
+  const baselineFunctions = baseline.snapshot.byFunction;
+  const currentFunctions = current.snapshot.byFunction;
+  for (const [name, fn] of Object.entries(currentFunctions)) {
+    const base = baselineFunctions[name];
+    if (base) {
+      scopes.push(compareScope(name, "function", base, fn));
+    }
+  }
+
+  return {
+    baseline: baseline.metadata,
+    current: current.metadata,
+    thresholds: limits,
+    scopes,
+    regressions: scopes.reduce(
+      (sum, scope) => sum + scope.metrics.filter((m) => m.regression).length,
+      0
+    ),
+    missingFunctions: Object.keys(baselineFunctions).filter((name) => !currentFunctions[name]),
+    newFunctions: Object.keys(currentFunctions).filter((name) => !baselineFunctions[name]),
+  };
+}
+
+function formatMetricValue(metric: ComparedMetric, value: number): string {
+  if (metric === "throughput") return `${value.toFixed(1)} ops/s`;
+  if (metric === "errorRate") return `${(value * 100).toFixed(2)}%`;
+  return `${value}ms`;
+}
+
+function formatChange(metric: ComparedMetric, change: number): string {
+  if (!Number.isFinite(change)) return "new";
+  const sign = change > 0 ? "+" : "";
+  return metric === "errorRate" ? `${sign}${change.toFixed(2)}pp` : `${sign}${change.toFixed(1)}%`;
+}
+
+/**
+ * Human-readable comparison for console output.
+ */
+export function formatComparison(comparison: RunComparison): string {
+  const describe = (run: RunMetadata) =>
+    `${run.behaviorKey} seed ${run.seed}, ${run.workerCount} workers, ${new Date(run.startTime).toISOString()}`;
+  const lines: string[] = [
+    `Baseline: ${describe(comparison.baseline)}`,
+    `Current:  ${describe(comparison.current)}`,
+    "",
+  ];
+
+  for (const scope of comparison.scopes) {
+    const kind = scope.kind === "behavior" ? "Behavior" : "Function";
+    lines.push(`${kind} ${scope.name} (${scope.baselineCount} → ${scope.currentCount} ops)`);
+    for (const m of scope.metrics) {
+      const flag = m.regression ? "REGRESSION" : m.significant ? "significant" : "";
+      const values = `${formatMetricValue(m.metric, m.baseline).padStart(14)} → ${formatMetricValue(m.metric, m.current).padEnd(14)}`;
+      const change = formatChange(m.metric, m.change).padStart(9);
+      lines.push(`  ${m.metric.padEnd(10)} ${values} ${change}  p=${m.pValue.toFixed(4)} ${flag}`.trimEnd());
+    }
+  }
+
+  if (comparison.missingFunctions.length > 0) {
+    lines.push("", `Only in baseline: ${comparison.missingFunctions.join(", ")}`);
+  }
+  if (comparison.newFunctions.length > 0) {
+    lines.push("", `Only in current run: ${comparison.newFunctions.join(", ")}`);
+  }
+
+  lines.push(
+    "",
+    comparison.regressions > 0
+      ? `${comparison.regressions} regression(s) beyond thresholds`
+      : "No regressions beyond thresholds"
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,302 @@
+/**
+ * HTML Run Reports
+ *
+ * Renders a RunReport as a single self-contained HTML page with inline SVG
+ * time-series charts (no scripts or external assets), so it can be archived
+ * or attached to a ticket as-is.
+ */
+
+import type { TimeSeriesBucket } from "../latency-tracking/types";
+import { formatDuration, formatRunSummary } from "../run-limits";
+import type { RunReport } from "./run-report";
+import { formatSloValue } from "../slo";
+
+interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 56 };
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+function table(headers: string[], rows: unknown[][]): string {
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+/**
+ * Line chart of one or more series against elapsed seconds.
+ */
+function lineChart(title: string, unit: string, elapsed: number[], series: ChartSeries[]): string {
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxX = Math.max(1, ...elapsed);
+  const maxY = Math.max(1, ...series.flatMap((s) => s.values)) * 1.1;
+  const x = (value: number) => PADDING.left + (value / maxX) * plotWidth;
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxY) * plotHeight;
+
+  const grid = [0, 0.25, 0.5, 0.75, 1]
+    .map((fraction) => {
+      const value = maxY * fraction;
+      const label = value >= 100 ? Math.round(value) : value.toFixed(1);
+      return (
+        `<line x1="${PADDING.left}" x2="${CHART_WIDTH - PADDING.right}" y1="${y(value)}" y2="${y(value)}" class="grid"/>` +
+        `<text x="${PADDING.left - 6}" y="${y(value) + 4}" text-anchor="end">${label}</text>`
+      );
+    })
+    .join("");
+
+  const lines = series
+    .map((s) => {
+      const points = s.values.map((v, i) => `${x(elapsed[i]).toFixed(1)},${y(v).toFixed(1)}`).join(" ");
+      return `<polyline points="${points}" fill="none" stroke="${s.color}" stroke-width="1.5"/>`;
+    })
+    .join("");
+
+  const legend = series
+    .map((s) => `<span><i style="background:${s.color}"></i>${escapeHtml(s.label)}</span>`)
+    .join("");
+
+  return `<figure>
+<figcaption>${escapeHtml(title)} <small>(${escapeHtml(unit)})</small><span class="legend">${legend}</span></figcaption>
+<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" role="img" aria-label="${escapeHtml(title)}">
+${grid}
+<text x="${CHART_WIDTH - PADDING.right}" y="${CHART_HEIGHT - 8}" text-anchor="end">${escapeHtml(formatDuration(maxX * 1000))}</text>
+<text x="${PADDING.left}" y="${CHART_HEIGHT - 8}">0s</text>
+${lines}
+</svg>
+</figure>`;
+}
+
+function timeSeriesCharts(buckets: TimeSeriesBucket[], startTime: number): string {
+  if (buckets.length < 2) {
+    return "<p>Not enough data for time-series charts.</p>";
+  }
+  const elapsed = buckets.map((b) => Math.max(0, b.start - startTime) / 1000);
+  return [
+    lineChart("Throughput", "ops/s", elapsed, [
+      { label: "ops/s", color: "#2563eb", values: buckets.map((b) => b.opsPerSecond) },
+    ]),
+    lineChart("Latency", "ms", elapsed, [
+      { label: "p50", color: "#16a34a", values: buckets.map((b) => b.latencyP50) },
+      { label: "p95", color: "#d97706", values: buckets.map((b) => b.latencyP95) },
+      { label: "p99", color: "#dc2626", values: buckets.map((b) => b.latencyP99) },
+    ]),
+    lineChart("Error rate", "%", elapsed, [
+      { label: "errors", color: "#dc2626", values: buckets.map((b) => b.errorRate * 100) },
+    ]),
+  ].join("\n");
+}
+
+const STYLES = `
+body { font: 14px/1.5 system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #111827; padding: 0 1rem; }
+h1 { font-size: 1.5rem; } h2 { font-size: 1.15rem; margin-top: 2rem; }
+table { border-collapse: collapse; margin: 0.5rem 0; width: 100%; }
+th, td { border-bottom: 1px solid #e5e7eb; padding: 0.3rem 0.6rem; text-align: left; }
+th { background: #f9fafb; font-weight: 600; }
+figure { margin: 1rem 0; } figcaption { font-weight: 600; }
+.legend { font-weight: normal; margin-left: 1rem; } .legend span { margin-right: 0.75rem; }
+.legend i { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+svg text { font-size: 11px; fill: #6b7280; } svg .grid { stroke: #e5e7eb; }
+code { background: #f3f4f6; padding: 0 0.25rem; }
+`;
+
+/**
+ * Render a report as a standalone HTML page.
+ */
+export function formatReportHtml(report: RunReport): string {
+  const { metadata, summary, errors } = report;
+  const title = metadata.behaviorName ?? metadata.behaviorKey;
+  const parts: string[] = [];
+
+  const metadataRows: unknown[][] = [
+    ["Behavior", `${title} (${metadata.behaviorKey})`],
+    ["Seed", metadata.seed],
+    ["Workers", metadata.workerCount],
+    ["Started", new Date(metadata.startTime).toISOString()],
+    ["Duration", formatDuration(metadata.durationMs)],
+  ];
+  if (metadata.convexUrl) metadataRows.push(["Convex URL", metadata.convexUrl]);
+  if (metadata.config) metadataRows.push(["Config", JSON.stringify(metadata.config)]);
+  if (metadata.options) metadataRows.push(["Options", JSON.stringify(metadata.options)]);
+  parts.push("<h2>Run</h2>", table(["", ""], metadataRows));
+  if (report.run) {
+    parts.push(`<p>${escapeHtml(formatRunSummary(report.run))}</p>`);
+  }
+
+  parts.push(
+    "<h2>Summary</h2>",
+    table(
+      ["Operations", "Errors", "Error rate", "Throughput", "p50", "p95", "p99", "Max", "Mean"],
+      [
+        [
+          summary.totalCount,
+          summary.errorCount,
+          percent(summary.totalCount > 0 ? summary.errorCount / summary.totalCount : 0),
+          `${summary.opsPerSecond.toFixed(1)} ops/s`,
+          `${summary.latencyP50}ms`,
+          `${summary.latencyP95}ms`,
+          `${summary.latencyP99}ms`,
+          `${summary.latencyMax}ms`,
+          `${summary.latencyMean.toFixed(1)}ms`,
+        ],
+      ]
+    )
+  );
+
+  const propagation = summary.byType.propagation;
+  if (propagation.count > 0) {
+    parts.push(
+      "<h2>Propagation</h2>",
+      table(
+        ["Updates", "p50", "p95", "p99", "Max", "Mean"],
+        [
+          [
+            propagation.count,
+            `${propagation.latencyP50}ms`,
+            `${propagation.latencyP95}ms`,
+            `${propagation.latencyP99}ms`,
+            `${propagation.latencyMax}ms`,
+            `${propagation.latencyMean.toFixed(1)}ms`,
+          ],
+        ]
+      )
+    );
+  }
+
+  const updates = summary.byType.update;
+  if (updates.count > 0) {
+    parts.push(
+      "<h2>Subscription Updates</h2>",
+      table(
+        ["Updates", "Interval p50", "p95", "p99", "Max", "Mean"],
+        [
+          [
+            updates.count,
+            `${updates.latencyP50}ms`,
+            `${updates.latencyP95}ms`,
+            `${updates.latencyP99}ms`,
+            `${updates.latencyMax}ms`,
+            `${updates.latencyMean.toFixed(1)}ms`,
+          ],
+        ]
+      )
+    );
+  }
+
+  if (report.slos && report.slos.length > 0) {
+    parts.push(
+      "<h2>SLOs</h2>",
+      table(
+        ["Objective", "Actual", "Result"],
+        report.slos.map((r) => [
+          r.label,
+          r.actual === undefined ? "no data" : formatSloValue(r),
+          r.passed ? "pass" : "FAIL",
+        ])
+      )
+    );
+  }
+
+  parts.push(
+    `<h2>Over time <small>(${escapeHtml(formatDuration(report.timeSeriesIntervalMs))} windows)</small></h2>`,
+    timeSeriesCharts(report.timeSeries, metadata.startTime)
+  );
+
+  if (report.functions.length > 0) {
+    parts.push(
+      "<h2>By function</h2>",
+      table(
+        ["Function", "Type", "Operations", "Errors", "Error rate", "p50", "p95", "p99", "Max"],
+        report.functions.map((fn) => [
+          fn.name,
+          fn.type,
+          fn.count,
+          fn.errorCount,
+          percent(fn.errorRate),
+          `${fn.latencyP50}ms`,
+          `${fn.latencyP95}ms`,
+          `${fn.latencyP99}ms`,
+          `${fn.latencyMax}ms`,
+        ])
+      )
+    );
+  }
+
+  if (report.phases && report.phases.length > 0) {
+    parts.push(
+      "<h2>Phases</h2>",
+      table(
+        ["Phase", "Peak workers", "Duration", "Operations", "Throughput", "p50", "p95", "p99", "Errors"],
+        report.phases.map((phase) => [
+          phase.name,
+          phase.peakWorkers,
+          formatDuration(phase.durationMs),
+          phase.metrics.totalCount,
+          `${phase.metrics.opsPerSecond.toFixed(1)} ops/s`,
+          `${phase.metrics.latencyP50}ms`,
+          `${phase.metrics.latencyP95}ms`,
+          `${phase.metrics.latencyP99}ms`,
+          phase.metrics.errorCount,
+        ])
+      )
+    );
+  }
+
+  parts.push("<h2>Errors</h2>");
+  if (errors.total === 0 && errors.workers.length === 0) {
+    parts.push("<p>No errors.</p>");
+  } else {
+    if (errors.conflicts > 0) {
+      parts.push(
+        `<p>Write conflicts (OCC retries exhausted): ${errors.conflicts} of ${errors.total} errors</p>`
+      );
+    }
+    if (errors.byFunction.length > 0) {
+      parts.push(
+        table(
+          ["Function", "Errors", "Error rate"],
+          errors.byFunction.map((e) => [e.name, e.errors, percent(e.errorRate)])
+        )
+      );
+    }
+    if (errors.byMessage.length > 0) {
+      parts.push(table(["Message", "Count"], errors.byMessage.map((e) => [e.message, e.count])));
+    }
+    if (errors.workers.length > 0) {
+      parts.push(table(["Worker", "Error"], errors.workers.map((w) => [`w${w.workerId}`, w.error])));
+    }
+  }
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Benchmark report: ${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Benchmark report: ${escapeHtml(title)}</h1>
+${parts.join("\n")}
+<footer><small>Generated ${escapeHtml(new Date(report.generatedAt).toISOString())}</small></footer>
+</body>
+</html>
+`;
+}
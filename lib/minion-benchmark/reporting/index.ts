@@ -0,0 +1,40 @@
+/**
+ * Benchmark Run Reports
+ *
+ * Build a RunReport from collector data and run metadata, then write it
+ * out as JSON, Markdown or a standalone HTML page.
+ *
+ * @example
+ * ```ts
+ * const report = buildRunReport({
+ *   metadata: { behaviorKey: "writer", seed: 42, workerCount: 10, startTime, endTime, durationMs },
+ *   snapshot: collector.getSnapshot(),
+ *   timeSeries: collector.getTimeSeries(10_000),
+ *   timeSeriesIntervalMs: 10_000,
+ * });
+ * writeFileSync("report.html", formatReportHtml(report));
+ * ```
+ */
+
+export {
+  buildRunReport,
+  chooseTimeSeriesInterval,
+  RUN_REPORT_VERSION,
+  type RunReport,
+  type RunReportInput,
+  type RunMetadata,
+  type FunctionReportRow,
+  type PhaseReportRow,
+  type ErrorBreakdown,
+} from "./run-report";
+export { formatReportMarkdown } from "./markdown";
+export { formatReportHtml } from "./html";
+export {
+  compareRuns,
+  formatComparison,
+  type RegressionThresholds,
+  type RunComparison,
+  type ScopeComparison,
+  type MetricComparison,
+  type ComparedMetric,
+} from "./compare";
@@ -0,0 +1,220 @@
+/**
+ * Markdown Run Reports
+ *
+ * Renders a RunReport as Markdown, suitable for pasting into docs or PRs.
+ */
+
+import { formatDuration, formatRunSummary } from "../run-limits";
+import type { RunReport } from "./run-report";
+import { formatSloValue } from "../slo";
+
+function escapeCell(value: unknown): string {
+  return String(value).replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function table(headers: string[], rows: unknown[][]): string {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+  ].join("\n");
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+/**
+ * Render a report as Markdown. The time series is included as a table of
+ * at most `maxTimeSeriesRows` rows (evenly sampled).
+ */
+export function formatReportMarkdown(report: RunReport, maxTimeSeriesRows = 60): string {
+  const { metadata, summary, errors } = report;
+  const title = metadata.behaviorName ?? metadata.behaviorKey;
+  const sections: string[] = [`# Benchmark report: ${title}`];
+
+  const metadataRows: unknown[][] = [
+    ["Behavior", `${title} (\`${metadata.behaviorKey}\`)`],
+    ["Seed", metadata.seed],
+    ["Workers", metadata.workerCount],
+    ["Started", new Date(metadata.startTime).toISOString()],
+    ["Duration", formatDuration(metadata.durationMs)],
+  ];
+  if (metadata.convexUrl) metadataRows.push(["Convex URL", metadata.convexUrl]);
+  if (metadata.config) metadataRows.push(["Config", `\`${JSON.stringify(metadata.config)}\``]);
+  if (metadata.options) metadataRows.push(["Options", `\`${JSON.stringify(metadata.options)}\``]);
+  sections.push("## Run", table(["", ""], metadataRows));
+  if (report.run) {
+    sections.push(formatRunSummary(report.run));
+  }
+
+  sections.push(
+    "## Summary",
+    table(
+      ["Operations", "Errors", "Error rate", "Throughput", "p50", "p95", "p99", "Max", "Mean"],
+      [
+        [
+          summary.totalCount,
+          summary.errorCount,
+          percent(summary.totalCount > 0 ? summary.errorCount / summary.totalCount : 0),
+          `${summary.opsPerSecond.toFixed(1)} ops/s`,
+          `${summary.latencyP50}ms`,
+          `${summary.latencyP95}ms`,
+          `${summary.latencyP99}ms`,
+          `${summary.latencyMax}ms`,
+          `${summary.latencyMean.toFixed(1)}ms`,
+        ],
+      ]
+    )
+  );
+
+  const propagation = summary.byType.propagation;
+  if (propagation.count > 0) {
+    sections.push(
+      "## Propagation",
+      table(
+        ["Updates", "p50", "p95", "p99", "Max", "Mean"],
+        [
+          [
+            propagation.count,
+            `${propagation.latencyP50}ms`,
+            `${propagation.latencyP95}ms`,
+            `${propagation.latencyP99}ms`,
+            `${propagation.latencyMax}ms`,
+            `${propagation.latencyMean.toFixed(1)}ms`,
+          ],
+        ]
+      )
+    );
+  }
+
+  const updates = summary.byType.update;
+  if (updates.count > 0) {
+    sections.push(
+      "## Subscription Updates",
+      table(
+        ["Updates", "Interval p50", "p95", "p99", "Max", "Mean"],
+        [
+          [
+            updates.count,
+            `${updates.latencyP50}ms`,
+            `${updates.latencyP95}ms`,
+            `${updates.latencyP99}ms`,
+            `${updates.latencyMax}ms`,
+            `${updates.latencyMean.toFixed(1)}ms`,
+          ],
+        ]
+      )
+    );
+  }
+
+  if (report.slos && report.slos.length > 0) {
+    sections.push(
+      "## SLOs",
+      table(
+        ["Objective", "Actual", "Result"],
+        report.slos.map((r) => [
+          `\`${r.label}\``,
+          r.actual === undefined ? "no data" : formatSloValue(r),
+          r.passed ? "pass" : "**FAIL**",
+        ])
+      )
+    );
+  }
+
+  if (report.functions.length > 0) {
+    sections.push(
+      "## By function",
+      table(
+        ["Function", "Type", "Operations", "Errors", "Error rate", "p50", "p95", "p99", "Max"],
+        report.functions.map((fn) => [
+          `\`${fn.name}\``,
+          fn.type,
+          fn.count,
+          fn.errorCount,
+          percent(fn.errorRate),
+          `${fn.latencyP50}ms`,
+          `${fn.latencyP95}ms`,
+          `${fn.latencyP99}ms`,
+          `${fn.latencyMax}ms`,
+        ])
+      )
+    );
+  }
+
+  if (report.phases && report.phases.length > 0) {
+    sections.push(
+      "## Phases",
+      table(
+        ["Phase", "Peak workers", "Duration", "Operations", "Throughput", "p50", "p95", "p99", "Errors"],
+        report.phases.map((phase) => [
+          phase.name,
+          phase.peakWorkers,
+          formatDuration(phase.durationMs),
+          phase.metrics.totalCount,
+          `${phase.metrics.opsPerSecond.toFixed(1)} ops/s`,
+          `${phase.metrics.latencyP50}ms`,
+          `${phase.metrics.latencyP95}ms`,
+          `${phase.metrics.latencyP99}ms`,
+          phase.metrics.errorCount,
+        ])
+      )
+    );
+  }
+
+  const buckets = report.timeSeries;
+  if (buckets.length > 0) {
+    const step = Math.max(1, Math.ceil(buckets.length / maxTimeSeriesRows));
+    sections.push(
+      `## Over time (${formatDuration(report.timeSeriesIntervalMs)} windows)`,
+      table(
+        ["Elapsed", "Throughput", "p50", "p95", "p99", "Error rate"],
+        buckets
+          .filter((_, i) => i % step === 0)
+          .map((bucket) => [
+            formatDuration(Math.max(0, bucket.start - metadata.startTime)),
+            `${bucket.opsPerSecond.toFixed(1)} ops/s`,
+            `${bucket.latencyP50}ms`,
+            `${bucket.latencyP95}ms`,
+            `${bucket.latencyP99}ms`,
+            percent(bucket.errorRate),
+          ])
+      )
+    );
+  }
+
+  sections.push("## Errors");
+  if (errors.total === 0 && errors.workers.length === 0) {
+    sections.push("No errors.");
+  } else {
+    if (errors.conflicts > 0) {
+      sections.push(`Write conflicts (OCC retries exhausted): ${errors.conflicts} of ${errors.total} errors`);
+    }
+    if (errors.byFunction.length > 0) {
+      sections.push(
+        table(
+          ["Function", "Errors", "Error rate"],
+          errors.byFunction.map((e) => [`\`${e.name}\``, e.errors, percent(e.errorRate)])
+        )
+      );
+    }
+    if (errors.byMessage.length > 0) {
+      sections.push(
+        table(
+          ["Message", "Count"],
+          errors.byMessage.map((e) => [e.message, e.count])
+        )
+      );
+    }
+    if (errors.workers.length > 0) {
+      sections.push(
+        table(
+          ["Worker", "Error"],
+          errors.workers.map((w) => [`w${w.workerId}`, w.error])
+        )
+      );
+    }
+  }
+
+  return sections.join("\n\n") + "\n";
+}
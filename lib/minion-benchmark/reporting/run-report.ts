@@ -0,0 +1,153 @@
+/**
+ * Run Reports
+ *
+ * A serializable record of one benchmark run: what was run (behavior,
+ * config, seed, workers, deployment) and what happened (summary stats,
+ * per-function latency, time series and errors). Rendered to Markdown or
+ * HTML by the formatters in this directory, or written out as JSON.
+ */
+
+import type {
+  FunctionMetrics,
+  LatencyMetrics,
+  MetricsSnapshot,
+  TimeSeriesBucket,
+} from "../latency-tracking/types";
+import { metricsFromSnapshot } from "../latency-tracking/histogram-collector";
+import { countWriteConflicts } from "../errors";
+import type { RunSummary } from "../run-limits";
+import type { SloResult } from "../slo";
+
+export const RUN_REPORT_VERSION = 1;
+
+/**
+ * What was run, and where.
+ */
+export interface RunMetadata {
+  behaviorKey: string;
+  behaviorName?: string;
+  /** Behavior config the run used */
+  config?: Record<string, unknown>;
+  /** Base seed; worker seeds are derived from it */
+  seed: number;
+  /** Workers requested (peak workers for load profiles) */
+  workerCount: number;
+  convexUrl?: string;
+  /** Runner options such as limits, open-loop rate or load profile */
+  options?: Record<string, unknown>;
+  /** Epoch ms */
+  startTime: number;
+  /** Epoch ms */
+  endTime: number;
+  durationMs: number;
+}
+
+export interface FunctionReportRow extends FunctionMetrics {
+  name: string;
+  errorRate: number;
+}
+
+export interface PhaseReportRow {
+  name: string;
+  peakWorkers: number;
+  durationMs: number;
+  metrics: LatencyMetrics;
+}
+
+export interface ErrorBreakdown {
+  /** Total failed operations */
+  total: number;
+  /** Failures that were Convex write conflicts (included in total) */
+  conflicts: number;
+  byFunction: Array<{ name: string; errors: number; errorRate: number }>;
+  /** Most frequent error messages first */
+  byMessage: Array<{ message: string; count: number }>;
+  /** Workers that ended with an error */
+  workers: Array<{ workerId: number; error: string }>;
+}
+
+export interface RunReport {
+  version: number;
+  /** When the report was generated (epoch ms) */
+  generatedAt: number;
+  metadata: RunMetadata;
+  /** Why the run ended */
+  run?: RunSummary;
+  summary: LatencyMetrics;
+  /** Functions ordered by operation count */
+  functions: FunctionReportRow[];
+  /** Width of the time-series buckets in milliseconds */
+  timeSeriesIntervalMs: number;
+  timeSeries: TimeSeriesBucket[];
+  phases?: PhaseReportRow[];
+  /** Final SLO verdicts, when the behavior declared any */
+  slos?: SloResult[];
+  errors: ErrorBreakdown;
+  /** Raw snapshot, so reports can be merged or compared later */
+  snapshot: MetricsSnapshot;
+}
+
+export interface RunReportInput {
+  metadata: RunMetadata;
+  snapshot: MetricsSnapshot;
+  timeSeries?: TimeSeriesBucket[];
+  timeSeriesIntervalMs?: number;
+  run?: RunSummary;
+  phases?: PhaseReportRow[];
+  slos?: SloResult[];
+  workers?: Array<{ workerId: number; error?: string }>;
+}
+
+const NICE_INTERVALS_MS = [1000, 2000, 5000, 10_000, 15_000, 30_000, 60_000, 120_000, 300_000, 600_000];
+
+/**
+ * Pick a time-series bucket width that gives at most `maxPoints` points
+ * for a run of `durationMs` (e.g. 1s for short runs, 1m for an hour).
+ */
+export function chooseTimeSeriesInterval(durationMs: number, maxPoints = 120): number {
+  for (const interval of NICE_INTERVALS_MS) {
+    if (durationMs / interval <= maxPoints) return interval;
+  }
+  return NICE_INTERVALS_MS[NICE_INTERVALS_MS.length - 1];
+}
+
+/**
+ * Assemble a report from collector data and run metadata.
+ */
+export function buildRunReport(input: RunReportInput): RunReport {
+  const summary = metricsFromSnapshot(input.snapshot);
+
+  const functions: FunctionReportRow[] = Object.entries(summary.byFunction)
+    .map(([name, fn]) => ({ name, ...fn, errorRate: fn.count > 0 ? fn.errorCount / fn.count : 0 }))
+    .sort((a, b) => b.count - a.count);
+
+  const errors: ErrorBreakdown = {
+    total: summary.errorCount,
+    conflicts: countWriteConflicts(input.snapshot.errorMessages),
+    byFunction: functions
+      .filter((fn) => fn.errorCount > 0)
+      .map((fn) => ({ name: fn.name, errors: fn.errorCount, errorRate: fn.errorRate }))
+      .sort((a, b) => b.errors - a.errors),
+    byMessage: Object.entries(input.snapshot.errorMessages)
+      .map(([message, count]) => ({ message, count }))
+      .sort((a, b) => b.count - a.count),
+    workers: (input.workers ?? [])
+      .filter((w): w is { workerId: number; error: string } => w.error !== undefined)
+      .map(({ workerId, error }) => ({ workerId, error })),
+  };
+
+  return {
+    version: RUN_REPORT_VERSION,
+    generatedAt: Date.now(),
+    metadata: input.metadata,
+    run: input.run,
+    summary,
+    functions,
+    timeSeriesIntervalMs: input.timeSeriesIntervalMs ?? 1000,
+    timeSeries: input.timeSeries ?? [],
+    phases: input.phases,
+    slos: input.slos,
+    errors,
+    snapshot: input.snapshot,
+  };
+}
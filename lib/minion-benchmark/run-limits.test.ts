@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RunBudget, parseDuration } from "./run-limits";
+
+describe("parseDuration", () => {
+  it("parses units and combinations", () => {
+    assert.equal(parseDuration("500ms"), 500);
+    assert.equal(parseDuration("30s"), 30_000);
+    assert.equal(parseDuration("5m"), 300_000);
+    assert.equal(parseDuration("1h"), 3_600_000);
+    assert.equal(parseDuration("1m30s"), 90_000);
+    assert.equal(parseDuration("1.5s"), 1500);
+    assert.equal(parseDuration(" 2m "), 120_000);
+  });
+
+  it("treats bare numbers as seconds", () => {
+    assert.equal(parseDuration("45"), 45_000);
+    assert.equal(parseDuration(2.5), 2500);
+  });
+
+  it("rejects invalid durations", () => {
+    for (const input of ["", "abc", "5x", "m5", "5m junk", "1h 30m"]) {
+      assert.throws(() => parseDuration(input), /Invalid duration/, input);
+    }
+  });
+});
+
+describe("RunBudget", () => {
+  it("is exhausted once maxOperations operations are recorded", () => {
+    const budget = new RunBudget({ maxOperations: 3 });
+    budget.start();
+    budget.recordOperation(true);
+    budget.recordOperation(false);
+    assert.equal(budget.isExhausted(), false);
+    budget.recordOperation(true);
+    assert.equal(budget.isExhausted(), true);
+    assert.deepEqual(
+      { ...budget.summarize(false), durationMs: 0 },
+      { reason: "operations", durationMs: 0, operations: 3, errors: 1 }
+    );
+  });
+
+  it("is exhausted once the duration has elapsed", () => {
+    const budget = new RunBudget({ durationMs: 0 });
+    budget.start();
+    assert.equal(budget.isExhausted(), true);
+    assert.equal(budget.summarize(false).reason, "duration");
+    assert.equal(budget.remainingMs(), 0);
+  });
+
+  it("latches the first reason", () => {
+    const budget = new RunBudget({ maxOperations: 1 });
+    budget.start();
+    budget.abort("slo");
+    budget.recordOperation(true);
+    assert.equal(budget.summarize(true).reason, "slo");
+  });
+
+  it("reports completed or stopped when no limit was reached", () => {
+    const budget = new RunBudget();
+    budget.start();
+    budget.recordOperation(true);
+    assert.equal(budget.isExhausted(), false);
+    assert.equal(budget.remainingMs(), undefined);
+    assert.equal(budget.summarize(false).reason, "completed");
+    assert.equal(budget.summarize(true).reason, "stopped");
+  });
+
+  it("resets its counters on start", () => {
+    const budget = new RunBudget({ maxOperations: 1 });
+    budget.start();
+    budget.recordOperation(false);
+    assert.equal(budget.isExhausted(), true);
+    budget.start();
+    assert.equal(budget.isExhausted(), false);
+    assert.equal(budget.summarize(false).operations, 0);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Run Limits
+ *
+ * Time-boxed and operation-boxed runs. A RunBudget flips shouldStop()
+ * once the configured duration has elapsed or enough operations have
+ * been reported, so benchmark runs can be scripted to a fixed length.
+ */
+
+/**
+ * Limits for a single run. Both are optional; whichever is hit first ends the run.
+ */
+export interface RunLimits {
+  /** Stop after this many milliseconds */
+  durationMs?: number;
+  /**
+   * Stop after this many behavior operations (counted via ctx.reportMetric,
+   * or per operation in open-loop mode), not Convex calls
+   */
+  maxOperations?: number;
+}
+
+/**
+ * Why a run ended.
+ */
+export type StopReason = "stopped" | "duration" | "operations" | "completed" | "slo";
+
+/**
+ * Final numbers for a run, logged when it ends.
+ */
+export interface RunSummary {
+  reason: StopReason;
+  durationMs: number;
+  operations: number;
+  errors: number;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+};
+
+/**
+ * Parse a human duration such as "500ms", "30s", "5m", "1h" or "1m30s".
+ * A bare number is treated as seconds.
+ *
+ * @throws Error if the input is not a valid duration
+ */
+export function parseDuration(input: string | number): number {
+  if (typeof input === "number") {
+    return input * 1000;
+  }
+  const trimmed = input.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const pattern = /(\d+(?:\.\d+)?)(ms|s|m|h)/g;
+  let total = 0;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    if (match.index !== consumed) break;
+    total += Number(match[1]) * DURATION_UNITS[match[2]];
+    consumed = match.index + match[0].length;
+  }
+  if (consumed === 0 || consumed !== trimmed.length) {
+    throw new Error(`Invalid duration: "${input}" (expected e.g. 30s, 5m, 1h30m)`);
+  }
+  return total;
+}
+
+/**
+ * Format milliseconds as a short human duration (e.g. "2m 5s").
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  if (h > 0) return `${h}h ${m}m ${s}s`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+/**
+ * Tracks elapsed time and operation count against RunLimits.
+ * Shared between all workers of a run so the budget is global.
+ */
+export class RunBudget {
+  private readonly limits: RunLimits;
+  private startTime = Date.now();
+  private operations = 0;
+  private errors = 0;
+  private exhaustedBy: StopReason | undefined;
+
+  constructor(limits: RunLimits = {}) {
+    this.limits = limits;
+  }
+
+  /** Restart the clock and counters */
+  start(): void {
+    this.startTime = Date.now();
+    this.operations = 0;
+    this.errors = 0;
+    this.exhaustedBy = undefined;
+  }
+
+  /** Count one completed operation */
+  recordOperation(success: boolean): void {
+    this.operations++;
+    if (!success) this.errors++;
+  }
+
+  /** True once either limit has been reached; latches the first reason */
+  isExhausted(): boolean {
+    if (this.exhaustedBy) return true;
+    const { durationMs, maxOperations } = this.limits;
+    if (durationMs !== undefined && Date.now() - this.startTime >= durationMs) {
+      this.exhaustedBy = "duration";
+    } else if (maxOperations !== undefined && this.operations >= maxOperations) {
+      this.exhaustedBy = "operations";
+    }
+    return this.exhaustedBy !== undefined;
+  }
+
+  /**
+   * End the run early for a reason other than the limits (e.g. a violated
+   * SLO). Latches like a reached limit, so shouldStop() checks see it.
+   */
+  abort(reason: StopReason): void {
+    if (!this.exhaustedBy) this.exhaustedBy = reason;
+  }
+
+  /** Milliseconds left before the duration limit, or undefined if none */
+  remainingMs(): number | undefined {
+    if (this.limits.durationMs === undefined) return undefined;
+    return Math.max(0, this.limits.durationMs - (Date.now() - this.startTime));
+  }
+
+  /**
+   * Build the final summary.
+   * @param stopRequested - Whether the user asked to stop (SIGINT / Stop button)
+   */
+  summarize(stopRequested: boolean): RunSummary {
+    this.isExhausted();
+    return {
+      reason: this.exhaustedBy ?? (stopRequested ? "stopped" : "completed"),
+      durationMs: Date.now() - this.startTime,
+      operations: this.operations,
+      errors: this.errors,
+    };
+  }
+}
+
+/**
+ * One-line description of a run summary for logs.
+ */
+export function formatRunSummary(summary: RunSummary): string {
+  const reason = {
+    stopped: "stopped by user",
+    duration: "duration limit reached",
+    operations: "operation limit reached",
+    completed: "completed",
+    slo: "aborted, SLO violated",
+  }[summary.reason];
+  return `Run complete (${reason}): ${summary.operations} operations, ${summary.errors} errors in ${formatDuration(summary.durationMs)}`;
+}
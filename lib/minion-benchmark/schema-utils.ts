@@ -7,7 +7,7 @@
 
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import type { BehaviorConfigInfo, ConfigFieldInfo } from './types';
+import type { BehaviorConfigInfo, ConfigFieldInfo, MinionBehavior } from './types';
 
 /**
  * JSON Schema representation of a behavior config field.
@@ -124,10 +124,49 @@ function mapJsonSchemaType(type: string | undefined): ConfigFieldSchema['type']
  * @param config - Raw config object
  * @returns Parsed and validated config with defaults applied
  */
-export function parseConfig<T>(schema: z.ZodType<T>, config: unknown): T {
+export function parseConfig<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, config: unknown): T {
   return schema.parse(config);
 }
 
+/**
+ * Validate raw config for a behavior (from the UI, CLI flags or a run file)
+ * against its configSchema, applying defaults. Unknown options are errors
+ * too, so a misspelled option can't silently fall back to its default.
+ * Behaviors without a configSchema accept no options.
+ *
+ * @param behavior - Behavior whose configSchema to validate against
+ * @param config - Raw config object
+ * @returns Parsed config with defaults applied
+ * @throws Error listing every problem, prefixed with the behavior name
+ */
+export function parseBehaviorConfig<TConfig>(
+  behavior: Pick<MinionBehavior<never, TConfig>, 'name' | 'configSchema'>,
+  config: Record<string, unknown> = {}
+): TConfig {
+  const schema = behavior.configSchema;
+  const known = schema instanceof z.ZodObject ? Object.keys(schema.shape as z.ZodRawShape) : [];
+  const problems = Object.keys(config)
+    .filter((key) => schema === undefined || (schema instanceof z.ZodObject && !known.includes(key)))
+    .map((key) => `${key}: unknown option`);
+
+  let parsed = {} as TConfig;
+  if (schema) {
+    try {
+      parsed = parseConfig(schema, config);
+    } catch (err) {
+      if (!(err instanceof z.ZodError)) throw err;
+      for (const issue of err.issues) {
+        problems.push(`${issue.path.join('.') || '(config)'}: ${issue.message}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid config for ${behavior.name}: ${problems.join('; ')}`);
+  }
+  return parsed;
+}
+
 /**
  * Safely validate config, returning defaults on error.
  *
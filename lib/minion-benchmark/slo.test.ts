@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateSlo, formatSlo, parseSlo } from "./slo";
+import { HistogramMetricsCollector } from "./latency-tracking/histogram-collector";
+import type { LatencyMetrics } from "./latency-tracking/types";
+
+describe("parseSlo", () => {
+  it("parses scoped latency objectives in ms or s", () => {
+    assert.deepEqual(parseSlo("items:updateItem p99 < 250ms"), {
+      function: "items:updateItem",
+      metric: "p99",
+      op: "<",
+      threshold: 250,
+    });
+    assert.deepEqual(parseSlo("median <= 1.5s"), { metric: "p50", op: "<=", threshold: 1500 });
+    assert.equal(parseSlo("p95 < 100").threshold, 100);
+  });
+
+  it("parses error rate as a fraction and throughput in ops/s", () => {
+    assert.deepEqual(parseSlo("error rate < 0.5%"), { metric: "errorRate", op: "<", threshold: 0.005 });
+    assert.equal(parseSlo("errors < 0.01").threshold, 0.01);
+    assert.deepEqual(parseSlo("throughput >= 100 ops/s"), { metric: "throughput", op: ">=", threshold: 100 });
+  });
+
+  it("round-trips through formatSlo", () => {
+    for (const text of ["items:updateItem p99 < 250ms", "error rate < 0.5%", "throughput >= 100 ops/s"]) {
+      assert.equal(formatSlo(parseSlo(text)), text);
+    }
+  });
+
+  it("rejects malformed objectives and mismatched units", () => {
+    for (const input of ["p99", "p42 < 10ms", "p99 < 10%", "error rate < 5ms", "throughput > 5ms", "p99 = 10ms"]) {
+      assert.throws(() => parseSlo(input), /Invalid SLO/, input);
+    }
+  });
+});
+
+describe("evaluateSlo", () => {
+  function metrics(latencies: number[], errors = 0): LatencyMetrics {
+    const collector = new HistogramMetricsCollector();
+    const record = (latencyMs: number, success: boolean) =>
+      collector.record({ type: "mutation", functionName: "items:updateItem", latencyMs, success, timestamp: 0 });
+    latencies.forEach((latencyMs) => record(latencyMs, true));
+    for (let i = 0; i < errors; i++) record(0, false);
+    return collector.getMetrics();
+  }
+
+  const latencies = Array.from({ length: 100 }, (_, i) => i + 1);
+
+  it("passes and fails on the measured value", () => {
+    assert.equal(evaluateSlo(parseSlo("items:updateItem p99 < 100ms"), metrics(latencies)).passed, true);
+    assert.equal(evaluateSlo(parseSlo("p99 < 99ms"), metrics(latencies)).passed, false);
+    assert.equal(evaluateSlo(parseSlo("error rate < 5%"), metrics(latencies, 10)).passed, false);
+  });
+
+  it("fails objectives without data", () => {
+    const result = evaluateSlo(parseSlo("items:getItem p99 < 100ms"), metrics(latencies));
+    assert.equal(result.actual, undefined);
+    assert.equal(result.passed, false);
+  });
+
+  it("marks results worse than the abort factor as severe", () => {
+    const slo = parseSlo("p50 < 20ms");
+    assert.equal(evaluateSlo(slo, metrics(latencies), 2).severe, true);
+    assert.equal(evaluateSlo(slo, metrics(latencies), 3).severe, false);
+  });
+});
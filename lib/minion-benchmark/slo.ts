@@ -0,0 +1,295 @@
+/**
+ * Service Level Objectives
+ *
+ * Success criteria a behavior (or its manifest entry) declares, such as
+ * "items:updateItem p99 < 250ms", "error rate < 0.5%" or
+ * "throughput >= 100 ops/s". An SloMonitor evaluates them against live
+ * metrics while a run is in progress and can ask the runner to abort once
+ * an objective is badly violated.
+ */
+
+import type { LatencyMetrics } from "./latency-tracking/types";
+
+export type SloMetric = "p50" | "p95" | "p99" | "max" | "mean" | "errorRate" | "throughput";
+
+export type SloComparator = "<" | "<=" | ">" | ">=";
+
+/**
+ * A parsed objective. Latency thresholds are in milliseconds, error rate
+ * is a fraction (0.005 = 0.5%) and throughput is in ops/s.
+ */
+export interface SloDefinition {
+  /** Convex function the objective applies to; the whole run when omitted */
+  function?: string;
+  metric: SloMetric;
+  op: SloComparator;
+  threshold: number;
+  /**
+   * Abort the run when the measured value is this many times worse than the
+   * threshold (overrides SloMonitorOptions.abortFactor)
+   */
+  abortFactor?: number;
+}
+
+/**
+ * An objective as declared on a behavior or manifest entry: either a string
+ * such as "items:updateItem p99 < 250ms" or a structured definition.
+ */
+export type SloSpec = string | SloDefinition;
+
+export interface SloResult {
+  slo: SloDefinition;
+  /** Canonical text form, e.g. "items:updateItem p99 < 250ms" */
+  label: string;
+  /** Measured value, undefined when there is no data for the scope yet */
+  actual?: number;
+  /** Operations the value is based on */
+  samples: number;
+  passed: boolean;
+  /** Worse than the threshold by at least the abort factor */
+  severe: boolean;
+}
+
+export interface SloMonitorOptions {
+  /**
+   * Abort when an objective is this many times worse than its threshold
+   * (e.g. 2 = p99 above 500ms for "p99 < 250ms"). Unset disables aborting.
+   */
+  abortFactor?: number;
+  /** Consecutive severe checks before aborting, to ride out blips (default: 3) */
+  abortAfterChecks?: number;
+  /** Scopes with fewer operations are not judged during the run (default: 100) */
+  minSamples?: number;
+}
+
+const METRIC_ALIASES: Record<string, SloMetric> = {
+  p50: "p50",
+  median: "p50",
+  p95: "p95",
+  p99: "p99",
+  max: "max",
+  mean: "mean",
+  avg: "mean",
+  "error rate": "errorRate",
+  errorrate: "errorRate",
+  errors: "errorRate",
+  throughput: "throughput",
+  "ops/s": "throughput",
+};
+
+const SLO_PATTERN =
+  /^(?:(\S+)\s+)?(p50|median|p95|p99|max|mean|avg|error\s*rate|errors|throughput|ops\/s)\s*(<=|>=|<|>)\s*(\d+(?:\.\d+)?)\s*(ms|s|%|ops\/s)?$/i;
+
+const LATENCY_METRICS: SloMetric[] = ["p50", "p95", "p99", "max", "mean"];
+
+/**
+ * Parse an objective such as "items:updateItem p99 < 250ms",
+ * "error rate < 0.5%" or "throughput >= 100 ops/s".
+ *
+ * @throws Error if the input is not a valid objective
+ */
+export function parseSlo(input: string): SloDefinition {
+  const match = SLO_PATTERN.exec(input.trim());
+  if (!match) {
+    throw new Error(
+      `Invalid SLO: "${input}" (expected e.g. "items:updateItem p99 < 250ms", "error rate < 0.5%", "throughput >= 100 ops/s")`
+    );
+  }
+  const [, scope, metricText, op, valueText, unitText] = match;
+  const metric = METRIC_ALIASES[metricText.toLowerCase().replace(/\s+/g, " ")];
+  const unit = unitText?.toLowerCase();
+  let threshold = Number(valueText);
+
+  if (LATENCY_METRICS.includes(metric)) {
+    if (unit === "%" || unit === "ops/s") {
+      throw new Error(`Invalid SLO: "${input}" (latency thresholds take ms or s)`);
+    }
+    if (unit === "s") threshold *= 1000;
+  } else if (metric === "errorRate") {
+    if (unit !== undefined && unit !== "%") {
+      throw new Error(`Invalid SLO: "${input}" (error rate thresholds take % or a fraction)`);
+    }
+    if (unit === "%") threshold /= 100;
+  } else if (unit !== undefined && unit !== "ops/s") {
+    throw new Error(`Invalid SLO: "${input}" (throughput thresholds take ops/s)`);
+  }
+
+  return { ...(scope ? { function: scope } : {}), metric, op: op as SloComparator, threshold };
+}
+
+/**
+ * Normalize a declared objective into a definition.
+ */
+export function toSloDefinition(spec: SloSpec): SloDefinition {
+  return typeof spec === "string" ? parseSlo(spec) : spec;
+}
+
+function formatMetricValue(metric: SloMetric, value: number): string {
+  if (metric === "errorRate") return `${Number((value * 100).toFixed(3))}%`;
+  if (metric === "throughput") return `${Number(value.toFixed(1))} ops/s`;
+  return `${Number(value.toFixed(1))}ms`;
+}
+
+/**
+ * Measured value of a result in the objective's unit (e.g. "180ms", "0.4%").
+ */
+export function formatSloValue(result: SloResult): string {
+  return result.actual === undefined ? "" : formatMetricValue(result.slo.metric, result.actual);
+}
+
+/**
+ * Canonical text form of an objective.
+ */
+export function formatSlo(slo: SloDefinition): string {
+  const metric = slo.metric === "errorRate" ? "error rate" : slo.metric;
+  const scope = slo.function ? `${slo.function} ` : "";
+  return `${scope}${metric} ${slo.op} ${formatMetricValue(slo.metric, slo.threshold)}`;
+}
+
+function compare(actual: number, op: SloComparator, threshold: number): boolean {
+  switch (op) {
+    case "<":
+      return actual < threshold;
+    case "<=":
+      return actual <= threshold;
+    case ">":
+      return actual > threshold;
+    case ">=":
+      return actual >= threshold;
+  }
+}
+
+/**
+ * Measured value and sample count for an objective's scope.
+ */
+function measure(slo: SloDefinition, metrics: LatencyMetrics): { actual?: number; samples: number } {
+  const scope = slo.function ? metrics.byFunction[slo.function] : metrics;
+  const count = !scope ? 0 : "totalCount" in scope ? scope.totalCount : scope.count;
+  if (!scope || count === 0) {
+    return { actual: slo.metric === "throughput" ? 0 : undefined, samples: 0 };
+  }
+  const value: Record<SloMetric, number> = {
+    p50: scope.latencyP50,
+    p95: scope.latencyP95,
+    p99: scope.latencyP99,
+    max: scope.latencyMax,
+    mean: scope.latencyMean,
+    errorRate: scope.errorCount / count,
+    // Per-function throughput is its share of the overall rate
+    throughput: metrics.totalCount > 0 ? (metrics.opsPerSecond * count) / metrics.totalCount : 0,
+  };
+  return { actual: value[slo.metric], samples: count };
+}
+
+/**
+ * Evaluate one objective against collected metrics. Objectives with no data
+ * fail, since they cannot be shown to hold.
+ */
+export function evaluateSlo(
+  slo: SloDefinition,
+  metrics: LatencyMetrics,
+  abortFactor?: number
+): SloResult {
+  const { actual, samples } = measure(slo, metrics);
+  const passed = actual !== undefined && compare(actual, slo.op, slo.threshold);
+  const factor = slo.abortFactor ?? abortFactor;
+  let severe = false;
+  if (!passed && actual !== undefined && factor !== undefined) {
+    // "<" objectives are badly violated above threshold × factor, ">" ones below threshold / factor
+    severe = slo.op.startsWith("<")
+      ? actual >= slo.threshold * factor
+      : actual <= slo.threshold / factor;
+  }
+  return { slo, label: formatSlo(slo), actual, samples, passed, severe };
+}
+
+/**
+ * Evaluates a set of objectives repeatedly over the course of a run.
+ */
+export class SloMonitor {
+  private readonly slos: SloDefinition[];
+  private readonly options: SloMonitorOptions;
+  private readonly severeStreaks: number[];
+  private results: SloResult[] = [];
+  private abortedBy: SloResult | undefined;
+
+  /**
+   * @throws Error if a string objective cannot be parsed
+   */
+  constructor(specs: SloSpec[], options: SloMonitorOptions = {}) {
+    this.slos = specs.map(toSloDefinition);
+    this.options = options;
+    this.severeStreaks = this.slos.map(() => 0);
+  }
+
+  get size(): number {
+    return this.slos.length;
+  }
+
+  /** Canonical text form of every objective */
+  get labels(): string[] {
+    return this.slos.map(formatSlo);
+  }
+
+  /**
+   * Evaluate against metrics collected so far. Scopes below minSamples are
+   * reported as passing until they have enough data. Returns the results
+   * whose pass/fail state changed since the previous check.
+   */
+  check(metrics: LatencyMetrics): SloResult[] {
+    const minSamples = this.options.minSamples ?? 100;
+    const abortAfter = this.options.abortAfterChecks ?? 3;
+    const previous = this.results;
+
+    this.results = this.slos.map((slo, i) => {
+      const result = evaluateSlo(slo, metrics, this.options.abortFactor);
+      if (result.samples < minSamples) {
+        this.severeStreaks[i] = 0;
+        return { ...result, passed: true, severe: false };
+      }
+      this.severeStreaks[i] = result.severe ? this.severeStreaks[i] + 1 : 0;
+      if (this.severeStreaks[i] >= abortAfter && !this.abortedBy) {
+        this.abortedBy = result;
+      }
+      return result;
+    });
+
+    return this.results.filter((result, i) => result.passed !== (previous[i]?.passed ?? true));
+  }
+
+  /**
+   * Final verdict for the whole run; every objective is judged regardless
+   * of sample count.
+   */
+  evaluate(metrics: LatencyMetrics): SloResult[] {
+    this.results = this.slos.map((slo) => evaluateSlo(slo, metrics, this.options.abortFactor));
+    return this.results;
+  }
+
+  /** Latest results from check() or evaluate() */
+  getResults(): SloResult[] {
+    return this.results;
+  }
+
+  /** The objective that triggered an abort, once one has */
+  getAbortCause(): SloResult | undefined {
+    return this.abortedBy;
+  }
+
+  /** True once an objective has been badly violated for abortAfterChecks checks in a row */
+  shouldAbort(): boolean {
+    return this.abortedBy !== undefined;
+  }
+}
+
+/**
+ * One line per objective, e.g. "PASS  items:updateItem p99 < 250ms (actual 180ms)".
+ */
+export function formatSloResults(results: SloResult[]): string {
+  return results
+    .map((r) => {
+      const actual = r.actual === undefined ? "no data" : `actual ${formatSloValue(r)}`;
+      return `${r.passed ? "PASS" : "FAIL"}  ${r.label} (${actual})`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadTrace, parseTrace, traceOperations, type TraceEntry } from "./trace";
+import { TraceFileWriter } from "./headless/trace-file";
+
+function context() {
+  return {
+    created: 0,
+    createItem(args: { title: string }) {
+      this.created++;
+      return Promise.resolve(`id-${args.title}`);
+    },
+    fetchItems(_args: { limit: number }) {
+      return Promise.resolve([{ id: "a" }, { id: "b" }]);
+    },
+    deleteItem(_id: string): Promise<void> {
+      return Promise.reject(new Error("not found"));
+    },
+    count() {
+      return this.created;
+    },
+    fail(): number {
+      throw new Error("sync failure");
+    },
+  };
+}
+
+describe("traceOperations", () => {
+  it("records calls with their arguments, results and worker id", async () => {
+    const entries: TraceEntry[] = [];
+    const ctx = context();
+    const traced = traceOperations(ctx, ["createItem", "count"], (e) => entries.push(e), { workerId: 3 });
+
+    assert.equal(traced, ctx);
+    assert.equal(await ctx.createItem({ title: "x" }), "id-x");
+    assert.equal(ctx.count(), 1);
+    await ctx.fetchItems({ limit: 1 });
+
+    assert.deepEqual(
+      entries.map(({ op, args, workerId, success, result }) => ({ op, args, workerId, success, result })),
+      [
+        { op: "createItem", args: [{ title: "x" }], workerId: 3, success: true, result: "id-x" },
+        { op: "count", args: [], workerId: 3, success: true, result: 1 },
+      ]
+    );
+    assert.ok(entries.every((e) => e.offsetMs >= 0 && e.latencyMs >= 0));
+  });
+
+  it("records failures and rethrows them", async () => {
+    const entries: TraceEntry[] = [];
+    const ctx = traceOperations(context(), ["deleteItem", "fail"], { record: (e) => entries.push(e) });
+
+    await assert.rejects(ctx.deleteItem("a"), /not found/);
+    assert.throws(() => ctx.fail(), /sync failure/);
+    assert.deepEqual(
+      entries.map(({ op, success, result, error }) => ({ op, success, result, error })),
+      [
+        { op: "deleteItem", success: false, result: undefined, error: "not found" },
+        { op: "fail", success: false, result: undefined, error: "sync failure" },
+      ]
+    );
+  });
+
+  it("summarizes results and measures offsets from the start time", async () => {
+    const entries: TraceEntry[] = [];
+    const ctx = traceOperations(context(), ["fetchItems"], (e) => entries.push(e), {
+      startTime: Date.now() - 1000,
+      summarize: (op, result) => (op === "fetchItems" ? { count: (result as unknown[]).length } : result),
+    });
+
+    assert.equal((await ctx.fetchItems({ limit: 2 })).length, 2);
+    assert.deepEqual(entries[0].result, { count: 2 });
+    assert.ok(entries[0].offsetMs >= 1000, `${entries[0].offsetMs}`);
+  });
+});
+
+describe("parseTrace", () => {
+  it("parses entries and skips blank lines", () => {
+    const text = '{"op":"createItem","args":[{"title":"x"}],"offsetMs":0,"latencyMs":5,"success":true}\n\n' +
+      '{"op":"fetchItems","args":[],"offsetMs":10,"latencyMs":2,"success":true}\n';
+    assert.deepEqual(
+      parseTrace(text).map((e) => [e.op, e.offsetMs]),
+      [
+        ["createItem", 0],
+        ["fetchItems", 10],
+      ]
+    );
+  });
+
+  it("names the line of an invalid entry", () => {
+    const valid = '{"op":"a","args":[],"offsetMs":0}';
+    assert.throws(() => parseTrace(`${valid}\n{oops`), /Invalid trace line 2:/);
+    assert.throws(() => parseTrace(`${valid}\n\n{"op":"a","offsetMs":0}`), /line 3: expected an object with op, args and offsetMs/);
+    assert.throws(() => parseTrace("null"), /line 1: expected an object/);
+  });
+});
+
+describe("TraceFileWriter and loadTrace", () => {
+  it("round-trips a recorded trace through a file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "trace-"));
+    try {
+      const path = join(dir, "trace.jsonl");
+      const writer = new TraceFileWriter(path);
+      const ctx = traceOperations(context(), ["createItem", "deleteItem"], writer, { workerId: 0 });
+      await ctx.createItem({ title: "x" });
+      await ctx.deleteItem("a").catch(() => {});
+      await writer.close();
+
+      assert.equal(writer.entries, 2);
+      const loaded = await loadTrace(path);
+      assert.deepEqual(
+        loaded.map(({ op, args, success, result, error }) => ({ op, args, success, result, error })),
+        [
+          { op: "createItem", args: [{ title: "x" }], success: true, result: "id-x", error: undefined },
+          { op: "deleteItem", args: ["a"], success: false, result: undefined, error: "not found" },
+        ]
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports files that can't be written", async () => {
+    const writer = new TraceFileWriter(join(tmpdir(), "missing-dir", "trace.jsonl"));
+    writer.record({ op: "a", args: [], offsetMs: 0, latencyMs: 0, success: true });
+    await assert.rejects(writer.close(), /Failed to write trace/);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Operation Traces
+ *
+ * Records the context operations a behavior performs (which method, with
+ * what arguments, when, how long it took and what it returned) as trace
+ * entries, one JSON object per line. A recorded trace can be loaded back
+ * and replayed, e.g. to run a captured workload against a new backend.
+ */
+
+/**
+ * One recorded context operation.
+ */
+export interface TraceEntry {
+  /** Context method, e.g. "createItem" */
+  op: string;
+  /** Arguments the method was called with */
+  args: unknown[];
+  /** When the call started, in ms since the recording started */
+  offsetMs: number;
+  workerId?: number;
+  latencyMs: number;
+  success: boolean;
+  /** What the call returned (possibly summarized, see TraceOptions.summarize) */
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Where trace entries go: a writer, or any callback.
+ */
+export type TraceSink = { record(entry: TraceEntry): void } | ((entry: TraceEntry) => void);
+
+export interface TraceOptions {
+  /** Stamped on every entry */
+  workerId?: number;
+  /** Offsets are measured from this time (default: when tracing starts) */
+  startTime?: number;
+  /**
+   * Reduce a result to what the trace should keep, e.g. large query results
+   * to a count (default: the result as is)
+   */
+  summarize?: (op: string, result: unknown) => unknown;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Record every call to the given methods of a context into a trace sink.
+ * The methods are replaced in place, so the context keeps its identity;
+ * synchronous and async methods are both supported.
+ *
+ * @example
+ * ```ts
+ * traceOperations(ctx, ["createItem", "updateItem"], writer, { workerId: 3 });
+ * await ctx.createItem({ title: "x" }); // recorded
+ * ```
+ */
+export function traceOperations<T extends object>(
+  target: T,
+  operations: readonly (keyof T & string)[],
+  sink: TraceSink,
+  options: TraceOptions = {}
+): T {
+  const record = typeof sink === "function" ? sink : (entry: TraceEntry) => sink.record(entry);
+  const startTime = options.startTime ?? Date.now();
+  const summarize = options.summarize ?? ((_op: string, result: unknown) => result);
+  const methods = target as unknown as Record<string, (...args: unknown[]) => unknown>;
+
+  for (const op of operations) {
+    const original = methods[op];
+    if (typeof original !== "function") continue;
+
+    methods[op] = (...args: unknown[]) => {
+      const start = performance.now();
+      const offsetMs = Date.now() - startTime;
+      const emit = (success: boolean, result?: unknown, error?: string) => {
+        record({
+          op,
+          args,
+          offsetMs,
+          workerId: options.workerId,
+          latencyMs: Math.round(performance.now() - start),
+          success,
+          result: success && result !== undefined ? summarize(op, result) : undefined,
+          error,
+        });
+      };
+
+      let returned: unknown;
+      try {
+        returned = original.apply(target, args);
+      } catch (err) {
+        emit(false, undefined, errorMessage(err));
+        throw err;
+      }
+      if (!(returned instanceof Promise)) {
+        emit(true, returned);
+        return returned;
+      }
+      return returned.then(
+        (result: unknown) => {
+          emit(true, result);
+          return result;
+        },
+        (err: unknown) => {
+          emit(false, undefined, errorMessage(err));
+          throw err;
+        }
+      );
+    };
+  }
+  return target;
+}
+
+/**
+ * Parse a JSONL trace. Blank lines are skipped.
+ * @throws Error naming the line if a line isn't a trace entry
+ */
+export function parseTrace(text: string): TraceEntry[] {
+  const entries: TraceEntry[] = [];
+  text.split("\n").forEach((line, i) => {
+    if (line.trim() === "") return;
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch (err) {
+      throw new Error(`Invalid trace line ${i + 1}: ${errorMessage(err)}`);
+    }
+    const e = entry as Partial<TraceEntry> | null;
+    if (
+      typeof e !== "object" ||
+      e === null ||
+      typeof e.op !== "string" ||
+      !Array.isArray(e.args) ||
+      typeof e.offsetMs !== "number"
+    ) {
+      throw new Error(`Invalid trace line ${i + 1}: expected an object with op, args and offsetMs`);
+    }
+    entries.push(e as TraceEntry);
+  });
+  return entries;
+}
+
+/**
+ * Load a JSONL trace from an http(s) URL, or, outside the browser, from a
+ * file path.
+ */
+export async function loadTrace(source: string): Promise<TraceEntry[]> {
+  if (/^https?:\/\//i.test(source) || "window" in globalThis) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to load trace ${source}: ${response.status} ${response.statusText}`);
+    }
+    return parseTrace(await response.text());
+  }
+  // Not a literal import, so browser bundles don't try to include node:fs
+  const fsModule = "node:fs/promises";
+  const { readFile } = (await import(/* @vite-ignore */ fsModule)) as typeof import("node:fs/promises");
+  return parseTrace(await readFile(source, "utf8"));
+}
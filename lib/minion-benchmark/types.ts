@@ -1,9 +1,31 @@
+import type { SloSpec } from "./slo";
+
+/**
+ * Serializable position of a seeded random stream (plain JSON).
+ */
+export interface SeededRandomState {
+  /** Seed the stream started from; forks derive from it */
+  seed: number;
+  /** Generator state after the draws so far */
+  state: number;
+}
+
 /**
  * Seeded random number generator interface
  */
 export interface ISeededRandom {
   /** Random float between 0 and 1 */
   next(): number;
+  /**
+   * Independent sub-stream for one part of a workload (e.g. a worker or an
+   * operation type). Depends only on the seed and label, never on draws made
+   * so far, so the same label always gives the same stream.
+   */
+  fork(label: string): ISeededRandom;
+  /** Current position, for checkpointing */
+  getState(): SeededRandomState;
+  /** Resume from a position returned by getState() */
+  setState(state: SeededRandomState): void;
   /** Random integer between min (inclusive) and max (exclusive) */
   int(min: number, max: number): number;
   /** Random float between min and max */
@@ -12,6 +34,18 @@ export interface ISeededRandom {
   pick<T>(array: T[]): T;
   /** Shuffle array in place */
   shuffle<T>(array: T[]): T[];
+  /** True with probability p (default: 0.5) */
+  bool(p?: number): boolean;
+  /** Integer in [0, n) where k has weight 1 / (k + 1)^s (s = 0 is uniform) */
+  zipf(n: number, s: number): number;
+  /** Normally distributed float (default: mean 0, sd 1) */
+  gaussian(mean?: number, sd?: number): number;
+  /** Exponentially distributed float with the given rate (mean 1 / rate) */
+  exponential(rate: number): number;
+  /** Pick an item with probability proportional to its weight */
+  weightedPick<T>(items: T[], weights: number[]): T;
+  /** k distinct items from array, in random order (array is not modified) */
+  sample<T>(array: T[], k: number): T[];
 }
 
 /**
@@ -47,6 +81,9 @@ export interface BaseMinionContext {
   /** Check if the behavior should stop */
   shouldStop(): boolean;
 
+  /** Worker index when several minions share one process (headless runner) */
+  workerId?: number;
+
   /**
    * Log a message (simple string or structured).
    * Can be called as log("message") for backwards compat,
@@ -59,10 +96,24 @@ export interface BaseMinionContext {
    * Used for latency tracking and aggregated metrics.
    * @param latencyMs - The latency of the operation in milliseconds
    * @param success - Whether the operation succeeded
+   * @param functionName - Convex function the operation called (e.g. "items:createItem"),
+   *   for the per-function breakdown; defaults to the behavior
+   *
+   * Contexts built on a tracked client (trackConvexClient) record Convex
+   * calls themselves and leave this unset.
    */
-  reportMetric?(latencyMs: number, success: boolean): void;
+  reportMetric?(latencyMs: number, success: boolean, functionName?: string): void;
 }
 
+/**
+ * The context a behavior's init(), run() and operation() receive: the app's
+ * context plus the behavior's config.
+ */
+export type BehaviorContext<TContext extends BaseMinionContext, TConfig> = TContext & {
+  /** Config validated against the behavior's configSchema, with defaults applied */
+  config: TConfig;
+};
+
 /**
  * A minion behavior definition.
  * Generic over the app-specific context type and optional config type.
@@ -83,7 +134,8 @@ export interface MinionBehavior<
   /**
    * Optional Zod schema for behavior configuration.
    * When provided, the UI will auto-generate a form with descriptions.
-   * Config values are merged into the context at runtime.
+   * Runners validate raw config against it before starting (see
+   * parseBehaviorConfig) and pass the result as ctx.config.
    *
    * Example:
    * ```typescript
@@ -95,17 +147,32 @@ export interface MinionBehavior<
    */
   configSchema?: import('zod').ZodType<TConfig, import('zod').ZodTypeDef, unknown>;
 
+  /**
+   * Optional success criteria, e.g. "items:updateItem p99 < 250ms",
+   * "error rate < 0.5%" or "throughput >= 100 ops/s". The headless runner
+   * checks them while running and reports pass/fail at the end.
+   */
+  slos?: SloSpec[];
+
   /**
    * Initialize resources before the main run loop.
    * Use this to create data, set up state, etc.
    */
-  init(ctx: TContext): Promise<void>;
+  init(ctx: BehaviorContext<TContext, TConfig>): Promise<void>;
 
   /**
    * The main behavior loop.
    * Should periodically check ctx.shouldStop() and exit gracefully.
    */
-  run(ctx: TContext): Promise<void>;
+  run(ctx: BehaviorContext<TContext, TConfig>): Promise<void>;
+
+  /**
+   * Optional single unit of work, used by open-loop (constant arrival rate)
+   * execution instead of run(). Must not sleep or call reportMetric — the
+   * runner schedules calls and measures latency from the intended start time.
+   * Throw to report a failed operation.
+   */
+  operation?(ctx: BehaviorContext<TContext, TConfig>): Promise<void>;
 }
 
 /**
@@ -122,6 +189,8 @@ export interface BehaviorManifest {
   description: string;
   category: BehaviorCategory;
   configSchema?: BehaviorConfigInfo;
+  /** Success criteria; used when the behavior itself declares none */
+  slos?: SloSpec[];
 }
 
 /**
@@ -1,14 +1,24 @@
 import { useState, useRef, useCallback } from "react";
 import type { MinionBehavior, BaseMinionContext } from "./types";
+import {
+  RunBudget,
+  formatRunSummary,
+  type RunLimits,
+  type RunSummary,
+} from "./run-limits";
+import { parseBehaviorConfig } from "./schema-utils";
 
 /**
  * Context factory function type.
  * Apps provide this to create their context with app-specific methods.
+ * `config` is the behavior's validated config, for context-level settings
+ * (the behavior itself gets it as ctx.config).
  */
 export type CreateContext<TContext extends BaseMinionContext> = (
   log: (message: string) => void,
   shouldStop: () => boolean,
-  seed: number
+  seed: number,
+  config: Record<string, unknown>
 ) => TContext;
 
 /**
@@ -23,14 +33,26 @@ export interface MinionRunner {
   selectedBehavior: string;
   /** Select a behavior by key */
   selectBehavior: (key: string) => void;
-  /** Start the selected behavior */
-  start: (seed?: number) => void;
+  /**
+   * Start the selected behavior.
+   * Without a seed, a time-based one is picked; either way it's logged and
+   * kept in lastSeed, so the run can be repeated with the same choices.
+   * Optional limits end the run automatically after a duration and/or
+   * a number of operations (counted via ctx.reportMetric). Raw config is
+   * validated against the behavior's configSchema first; invalid config is
+   * logged and the run doesn't start.
+   */
+  start: (seed?: number, limits?: RunLimits, config?: Record<string, unknown>) => void;
   /** Stop the running behavior */
   stop: () => void;
   /** Clear the logs */
   clearLogs: () => void;
   /** Manually add a log message */
   log: (message: string) => void;
+  /** Summary of the most recent finished run */
+  lastSummary: RunSummary | null;
+  /** Seed of the most recent run */
+  lastSeed: number | null;
 }
 
 /**
@@ -58,6 +80,8 @@ export function useMinionRunner<TContext extends BaseMinionContext>(
 ): MinionRunner {
   const [isRunning, setIsRunning] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
+  const [lastSummary, setLastSummary] = useState<RunSummary | null>(null);
+  const [lastSeed, setLastSeed] = useState<number | null>(null);
   const [selectedBehavior, setSelectedBehavior] = useState(
     Object.keys(behaviors)[0] ?? ""
   );
@@ -69,21 +93,44 @@ export function useMinionRunner<TContext extends BaseMinionContext>(
   }, []);
 
   const start = useCallback(
-    async (seed?: number) => {
+    async (seed?: number, limits?: RunLimits, rawConfig?: Record<string, unknown>) => {
       const behavior = behaviors[selectedBehavior];
       if (!behavior || isRunning) return;
 
+      let config: Record<string, unknown>;
+      try {
+        config = parseBehaviorConfig(behavior, rawConfig) as Record<string, unknown>;
+      } catch (err) {
+        addLog(`ERROR: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+
+      const runSeed = seed ?? Date.now() >>> 0;
       setIsRunning(true);
+      setLastSeed(runSeed);
       stopRef.current = false;
       setLogs([]);
       addLog(`Starting ${behavior.name}...`);
+      addLog(`Seed: ${runSeed}`);
 
-      const ctx = createContext(
-        addLog,
-        () => stopRef.current,
-        seed ?? Date.now()
+      const budget = new RunBudget(limits);
+      const ctx = Object.assign(
+        createContext(
+          addLog,
+          () => stopRef.current || budget.isExhausted(),
+          runSeed,
+          config
+        ),
+        { config }
       );
 
+      // Count operations toward the budget, forwarding to the app's reporter
+      const reportMetric = ctx.reportMetric?.bind(ctx);
+      ctx.reportMetric = (latencyMs, success, functionName) => {
+        budget.recordOperation(success);
+        reportMetric?.(latencyMs, success, functionName);
+      };
+
       try {
         await behavior.init(ctx);
         if (!stopRef.current) {
@@ -92,7 +139,10 @@ export function useMinionRunner<TContext extends BaseMinionContext>(
       } catch (err) {
         addLog(`ERROR: ${err instanceof Error ? err.message : String(err)}`);
       } finally {
+        const summary = budget.summarize(stopRef.current);
+        setLastSummary(summary);
         setIsRunning(false);
+        addLog(`${formatRunSummary(summary)} (seed ${runSeed})`);
         addLog("Stopped");
       }
     },
@@ -115,5 +165,7 @@ export function useMinionRunner<TContext extends BaseMinionContext>(
     stop,
     clearLogs,
     log: addLog,
+    lastSummary,
+    lastSeed,
   };
 }
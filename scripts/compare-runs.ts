@@ -0,0 +1,100 @@
+/**
+ * Compare two benchmark runs
+ *
+ * Compares a run report against a baseline (both written by
+ * `run-minion.ts --report <file>.json`) and exits non-zero when a
+ * statistically significant regression exceeds the thresholds.
+ *
+ * Usage:
+ *   npx tsx scripts/compare-runs.ts <baseline.json> <current.json> [options]
+ *
+ * Options:
+ *   --latency-threshold <pct>     Allowed p50/p95/p99 increase in percent (default: 10)
+ *   --throughput-threshold <pct>  Allowed throughput decrease in percent (default: 10)
+ *   --error-threshold <points>    Allowed error-rate increase in percentage points (default: 1)
+ *   --alpha <p>                   Significance level (default: 0.01)
+ *   --min-samples <n>             Ignore functions with fewer operations (default: 30)
+ *   --json                        Print the comparison as JSON
+ *
+ * Exit codes: 0 = no regressions, 1 = regression found, 2 = invalid input
+ */
+
+import { parseArgs } from "node:util";
+import { readFileSync } from "node:fs";
+import {
+  compareRuns,
+  formatComparison,
+  RUN_REPORT_VERSION,
+  type RegressionThresholds,
+  type RunReport,
+} from "../lib/minion-benchmark";
+
+function fail(message: string): never {
+  console.error(message);
+  console.error("");
+  console.error("Usage: npx tsx scripts/compare-runs.ts <baseline.json> <current.json> [options]");
+  process.exit(2);
+}
+
+function loadReport(path: string): RunReport {
+  let report: RunReport;
+  try {
+    report = JSON.parse(readFileSync(path, "utf8")) as RunReport;
+  } catch (err) {
+    fail(`Cannot read ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (report.version !== RUN_REPORT_VERSION || !report.snapshot || !report.metadata) {
+    fail(`${path} is not a run report (write one with run-minion.ts --report <file>.json)`);
+  }
+  return report;
+}
+
+let parsed;
+try {
+  parsed = parseArgs({
+    options: {
+      "latency-threshold": { type: "string" },
+      "throughput-threshold": { type: "string" },
+      "error-threshold": { type: "string" },
+      alpha: { type: "string" },
+      "min-samples": { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+} catch (err) {
+  fail(err instanceof Error ? err.message : String(err));
+}
+const { values: flags, positionals } = parsed;
+
+if (positionals.length !== 2) {
+  fail("Expected a baseline and a current report");
+}
+
+const thresholds: RegressionThresholds = {};
+const numberFlag = (name: keyof typeof flags, key: keyof RegressionThresholds) => {
+  const raw = flags[name];
+  if (typeof raw !== "string") return;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    fail(`Invalid --${name} value: ${raw}`);
+  }
+  thresholds[key] = value;
+};
+numberFlag("latency-threshold", "latencyPct");
+numberFlag("throughput-threshold", "throughputPct");
+numberFlag("error-threshold", "errorRatePoints");
+numberFlag("alpha", "alpha");
+numberFlag("min-samples", "minSamples");
+
+const baseline = loadReport(positionals[0]);
+const current = loadReport(positionals[1]);
+if (baseline.metadata.behaviorKey !== current.metadata.behaviorKey) {
+  console.warn(
+    `Warning: comparing different behaviors (${baseline.metadata.behaviorKey} vs ${current.metadata.behaviorKey})`
+  );
+}
+
+const comparison = compareRuns(baseline, current, thresholds);
+console.log(flags.json ? JSON.stringify(comparison, null, 2) : formatComparison(comparison));
+process.exit(comparison.regressions > 0 ? 1 : 0);
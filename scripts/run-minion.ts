@@ -2,181 +2,784 @@
  * CLI Runner for Items Benchmark Minions
  *
  * Usage:
- *   CONVEX_URL=https://your-deployment.convex.cloud npx tsx scripts/run-minion.ts [behavior]
+ *   CONVEX_URL=https://your-deployment.convex.cloud npx tsx scripts/run-minion.ts [behavior] [options]
+ *
+ * Options:
+ *   --help, -h          List these options and every behavior's config flags
+ *   --run-file <file>   Read options from a JSON or YAML file (flags take precedence)
+ *   --url <url>         Convex deployment URL (default: $CONVEX_URL)
+ *   --workers, -w <n>   Number of concurrent workers in this process (default: 1)
+ *   --worker-id <n>     Id of the first worker (default: 0); give each machine its own range
+ *   --seed <n>          Base seed; every random choice derives from it (default: time-based)
+ *   --shared-client     Share one ConvexClient between all workers instead of one each
+ *   --http              Use ConvexHttpClient (HTTP round trips, polled subscriptions)
+ *                       instead of a WebSocket ConvexClient
+ *   --duration <d>      Stop after a duration, e.g. 30s, 5m, 1h30m
+ *   --max-ops <n>       Stop after n behavior operations across all workers (reported
+ *                       operations, not Convex calls; one operation may make several)
+ *   --profile <spec>    Load profile instead of a fixed worker count, either a
+ *                       spec like "ramp:1-50:2m,hold:10m,spike:200:30s,ramp:0:1m"
+ *                       or a path to a JSON profile file
+ *   --report-interval <d>  How often to print per-interval metrics (default: 10s, 0 disables)
+ *   --rate <ops/s>      Open-loop mode: issue operations at this total rate (split across
+ *                       workers) regardless of completion; latency counts from intended start
+ *   --poisson           Poisson-distributed arrivals instead of a fixed interval (with --rate)
+ *   --max-in-flight <n> Cap on concurrent operations per worker in open-loop mode (default: 1000)
+ *   --metrics-port <n>  Serve live Prometheus metrics at http://localhost:<n>/metrics
+ *   --report <file>     Write a run report when the run ends; format from the extension
+ *                       (.json, .md or .html). Repeat for several formats
+ *   --otlp-endpoint <url>  Export each Convex call as an OpenTelemetry span, plus periodic
+ *                       metrics, via OTLP/HTTP (default: $OTEL_EXPORTER_OTLP_ENDPOINT)
+ *   --slo <objective>   Add an SLO on top of the behavior's own, e.g. "items:updateItem p99 < 250ms",
+ *                       "error rate < 0.5%" or "throughput >= 100 ops/s". Repeatable; the
+ *                       process exits with status 1 when any SLO fails
+ *   --slo-abort <x>     Abort the run once an SLO is x times worse than its threshold
+ *                       (e.g. 2) for three checks in a row
+ *   --trace <file>      Record every context operation (args, timing, result) to a JSONL
+ *                       trace, for replaying later with the replay behavior
+ *   --<option> <value>  Behavior config, one flag per configSchema field in kebab-case
+ *                       (e.g. --batch-size 50); see --help for each behavior's options
  *
  * Examples:
  *   CONVEX_URL=... npx tsx scripts/run-minion.ts seeder
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts seeder --count 5000 --batch-size 50 --num-projects 10
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts --run-file runs/soak.yaml
  *   CONVEX_URL=... npx tsx scripts/run-minion.ts reader
- *   CONVEX_URL=... npx tsx scripts/run-minion.ts writer
- *   CONVEX_URL=... npx tsx scripts/run-minion.ts mixed
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts writer --workers 50
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts mixed -w 20 --seed 42 --shared-client
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts writer -w 10 --duration 5m
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts writer --profile "ramp:1-50:2m,hold:10m,ramp:0:1m"
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts writer --rate 200 --poisson --duration 2m
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts mixed -w 20 --metrics-port 9464
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts writer -w 10 --duration 5m --report run.html --report run.json
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts writer -w 20 --slo "p95 < 200ms" --slo-abort 3
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts mixed -w 10 --duration 5m --trace mixed.jsonl
+ *   CONVEX_URL=... npx tsx scripts/run-minion.ts replay -w 10 --file mixed.jsonl --speed 2
+ */
+
+import { parseArgs } from "node:util";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { extname } from "node:path";
+import { ConvexClient, ConvexHttpClient } from "convex/browser";
+import {
+  SeededRandom,
+  parseDuration,
+  formatDuration,
+  formatRunSummary,
+  OtlpExporter,
+  buildRunReport,
+  chooseTimeSeriesInterval,
+  formatReportMarkdown,
+  formatReportHtml,
+  SloMonitor,
+  formatSloResults,
+  countWriteConflicts,
+  parseBehaviorConfig,
+  type LatencyMetrics,
+  type LatencyRecord,
+  type RunLimits,
+  type RunReport,
+} from "../lib/minion-benchmark";
+import {
+  WorkerPool,
+  runLoadProfile,
+  parseLoadProfile,
+  loadProfileFromJson,
+  profileDurationMs,
+  describePhase,
+  formatPrometheus,
+  startMetricsServer,
+  collectConfigFlags,
+  configFlagOptions,
+  configFromFlags,
+  formatConfigHelp,
+  parseRunFile,
+  TraceFileWriter,
+  type ConfigFlag,
+  type MetricsServer,
+  type WorkerInfo,
+  type WorkerPoolSummary,
+  type LoadProfile,
+  type LoadPhaseResult,
+  type OpenLoopOptions,
+} from "../lib/minion-benchmark/headless";
+import {
+  behaviors,
+  createItemsContext,
+  convexClientTransport,
+  httpClientTransport,
+  traceItemsContext,
+  type ItemsContext,
+  type ItemsTransport,
+} from "../src/minions";
+import { manifest } from "../src/minions/manifest";
+
+// Runner options; behavior config flags are derived from the behaviors' config schemas
+const RUNNER_OPTIONS = {
+  help: { type: "boolean", short: "h" },
+  "run-file": { type: "string" },
+  url: { type: "string" },
+  workers: { type: "string", short: "w" },
+  "worker-id": { type: "string" },
+  seed: { type: "string" },
+  "shared-client": { type: "boolean" },
+  http: { type: "boolean" },
+  duration: { type: "string" },
+  "max-ops": { type: "string" },
+  profile: { type: "string" },
+  "report-interval": { type: "string" },
+  rate: { type: "string" },
+  poisson: { type: "boolean" },
+  "max-in-flight": { type: "string" },
+  "metrics-port": { type: "string" },
+  "otlp-endpoint": { type: "string" },
+  report: { type: "string", multiple: true },
+  slo: { type: "string", multiple: true },
+  "slo-abort": { type: "string" },
+  trace: { type: "string" },
+} as const;
+
+type RunnerOption = keyof typeof RUNNER_OPTIONS;
+type RunnerFlags = {
+  -readonly [K in RunnerOption]?: (typeof RUNNER_OPTIONS)[K] extends { multiple: true }
+    ? string[]
+    : (typeof RUNNER_OPTIONS)[K]["type"] extends "boolean"
+      ? boolean
+      : string;
+};
+
+const USAGE = `Usage: npx tsx scripts/run-minion.ts [behavior] [options]
+
+Options:
+  -h, --help               Show this help
+  --run-file <file>        Read options from a JSON or YAML file; flags take precedence.
+                           Keys are option names, plus "behavior" and a "config" object
+  --url <url>              Convex deployment URL (default: $CONVEX_URL)
+  -w, --workers <n>        Concurrent workers in this process (default: 1)
+  --worker-id <n>          Id of the first worker (default: 0)
+  --seed <n>               Base seed; every random choice derives from it (default: time-based)
+  --shared-client          Share one client between all workers
+  --http                   Use ConvexHttpClient with polled subscriptions
+  --duration <d>           Stop after a duration, e.g. 30s, 5m, 1h30m
+  --max-ops <n>            Stop after n behavior operations across all workers
+  --profile <spec|file>    Load profile, e.g. "ramp:1-50:2m,hold:10m,ramp:0:1m"
+  --report-interval <d>    Per-interval metrics period (default: 10s, 0 disables)
+  --rate <ops/s>           Open-loop mode at this total arrival rate
+  --poisson                Poisson arrivals (with --rate)
+  --max-in-flight <n>      Open-loop cap on concurrent operations per worker (default: 1000)
+  --metrics-port <n>       Serve Prometheus metrics on this port
+  --report <file>          Write a .json, .md or .html report (repeatable)
+  --otlp-endpoint <url>    Export spans and metrics via OTLP/HTTP
+  --slo <objective>        Add an SLO, e.g. "p95 < 200ms" (repeatable)
+  --slo-abort <x>          Abort once an SLO is x times worse than its threshold
+  --trace <file>           Record every context operation to a JSONL trace (see replay)`;
+
+/**
+ * Runner flags, behavior and behavior config from a run file. Keys are
+ * runner option names (e.g. "max-ops"), plus "behavior" and a "config"
+ * object of behavior options.
  */
+function readRunFile(path: string): {
+  flags: RunnerFlags;
+  behavior?: string;
+  config: Record<string, unknown>;
+} {
+  const file = parseRunFile(path, readFileSync(path, "utf8"));
+  const flags: Record<string, unknown> = {};
+  let behavior: string | undefined;
+  let config: Record<string, unknown> = {};
+  const invalid = (key: string, expected: string) =>
+    new Error(`Invalid run file ${path}: "${key}" must be ${expected}`);
+
+  for (const [key, value] of Object.entries(file)) {
+    if (key === "behavior") {
+      if (typeof value !== "string") throw invalid(key, "a string");
+      behavior = value;
+    } else if (key === "config") {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw invalid(key, "an object of behavior options");
+      }
+      config = value as Record<string, unknown>;
+    } else if (key in RUNNER_OPTIONS && key !== "help" && key !== "run-file") {
+      const option: { type: string; multiple?: boolean } = RUNNER_OPTIONS[key as RunnerOption];
+      const isScalar = (v: unknown) => typeof v === "string" || typeof v === "number";
+      if (option.type === "boolean") {
+        if (typeof value !== "boolean") throw invalid(key, "true or false");
+        flags[key] = value;
+      } else if (option.multiple) {
+        const list: unknown[] = Array.isArray(value) ? value : [value];
+        if (!list.every(isScalar)) throw invalid(key, "a string or a list of strings");
+        flags[key] = list.map(String);
+      } else {
+        if (!isScalar(value)) throw invalid(key, "a string or number");
+        flags[key] = String(value);
+      }
+    } else {
+      throw new Error(`Invalid run file ${path}: unknown option "${key}"`);
+    }
+  }
+  return { flags: flags as RunnerFlags, behavior, config };
+}
+
+let configFlags: Map<string, ConfigFlag>;
+let cliValues: RunnerFlags & Record<string, unknown>;
+let positionals: string[];
+try {
+  configFlags = collectConfigFlags(behaviors, Object.keys(RUNNER_OPTIONS));
+  const parsed = parseArgs({
+    options: { ...RUNNER_OPTIONS, ...configFlagOptions(configFlags) },
+    allowPositionals: true,
+  });
+  cliValues = parsed.values as RunnerFlags & Record<string, unknown>;
+  positionals = parsed.positionals;
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  console.error("Run with --help to list options.");
+  process.exit(1);
+}
+
+if (cliValues.help) {
+  console.log(USAGE);
+  console.log("");
+  console.log("Behaviors and their options:");
+  console.log(formatConfigHelp(behaviors));
+  process.exit(0);
+}
 
-import { ConvexClient } from "convex/browser";
-import { SeededRandom } from "../lib/minion-benchmark";
-import { behaviors, type ItemsContext, type Item } from "../src/minions";
-import { api } from "../convex/_generated/api";
-import type { Id } from "../convex/_generated/dataModel";
+let runFile: ReturnType<typeof readRunFile> | undefined;
+if (cliValues["run-file"] !== undefined) {
+  try {
+    runFile = readRunFile(cliValues["run-file"]);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+// Command-line flags override the run file
+const flags: RunnerFlags = { ...runFile?.flags, ...cliValues };
 
-const CONVEX_URL = process.env.CONVEX_URL;
+const CONVEX_URL = flags.url ?? process.env.CONVEX_URL;
 if (!CONVEX_URL) {
-  console.error("Error: CONVEX_URL environment variable is required");
-  console.error("");
-  console.error(
-    "Usage: CONVEX_URL=https://your-deployment.convex.cloud npx tsx scripts/run-minion.ts [behavior]"
-  );
-  console.error("");
-  console.error(`Available behaviors: ${Object.keys(behaviors).join(", ")}`);
+  console.error("Error: a Convex URL is required (--url or the CONVEX_URL environment variable)");
+  console.error("Run with --help to list options.");
   process.exit(1);
 }
 
-const behaviorName = process.argv[2] || "seeder";
-const behavior = behaviors[behaviorName.toLowerCase()];
+const behaviorName = positionals[0] ?? runFile?.behavior ?? "seeder";
+const behaviorKey = behaviorName.toLowerCase();
+const behavior = behaviors[behaviorKey];
 if (!behavior) {
   console.error(`Unknown behavior: ${behaviorName}`);
   console.error(`Available behaviors: ${Object.keys(behaviors).join(", ")}`);
   process.exit(1);
 }
 
-const visibleId = `cli-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+// Behavior config: run file, then flags; validated up front so typos fail fast
+const rawConfig = { ...runFile?.config, ...configFromFlags(cliValues, configFlags, behaviorKey) };
+let config: Record<string, unknown>;
+try {
+  config = parseBehaviorConfig(behavior, rawConfig) as Record<string, unknown>;
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  console.error(`Run with --help to list the options of ${behavior.name}.`);
+  process.exit(1);
+}
+
+const workerCount = Number(flags.workers ?? "1");
+if (!Number.isInteger(workerCount) || workerCount < 1) {
+  console.error(`Invalid --workers value: ${flags.workers}`);
+  process.exit(1);
+}
+
+const firstWorkerId = Number(flags["worker-id"] ?? "0");
+if (!Number.isInteger(firstWorkerId) || firstWorkerId < 0) {
+  console.error(`Invalid --worker-id value: ${flags["worker-id"]}`);
+  process.exit(1);
+}
+
+// Every random choice derives from the base seed, so a run repeated with the
+// same seed (and worker ids) repeats its operation sequences
+const explicitSeed = flags.seed !== undefined;
+const baseSeed = explicitSeed ? Number(flags.seed) : Date.now() >>> 0;
+if (!Number.isInteger(baseSeed) || baseSeed < 0 || baseSeed > 0xffffffff) {
+  console.error(`Invalid --seed value: ${flags.seed} (expected an integer from 0 to ${0xffffffff})`);
+  process.exit(1);
+}
+
+const sharedClient = flags["shared-client"] ?? false;
+const useHttp = flags.http ?? false;
+
+const limits: RunLimits = {};
+if (flags.duration !== undefined) {
+  try {
+    limits.durationMs = parseDuration(flags.duration);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+if (flags["max-ops"] !== undefined) {
+  limits.maxOperations = Number(flags["max-ops"]);
+  if (!Number.isInteger(limits.maxOperations) || limits.maxOperations < 1) {
+    console.error(`Invalid --max-ops value: ${flags["max-ops"]}`);
+    process.exit(1);
+  }
+}
+
+let reportIntervalMs = 0;
+try {
+  reportIntervalMs = parseDuration(flags["report-interval"] ?? "10s");
+} catch (err) {
+  console.error(`Invalid --report-interval: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+}
+
+let profile: LoadProfile | undefined;
+if (flags.profile !== undefined) {
+  try {
+    profile =
+      flags.profile.endsWith(".json") && existsSync(flags.profile)
+        ? loadProfileFromJson(JSON.parse(readFileSync(flags.profile, "utf8")))
+        : parseLoadProfile(flags.profile);
+  } catch (err) {
+    console.error(`Invalid --profile: ${err instanceof Error ? err.message : String(err)}`);
+    process.exit(1);
+  }
+}
+
+let openLoop: OpenLoopOptions | undefined;
+if (flags.rate !== undefined) {
+  const rate = Number(flags.rate);
+  const maxInFlight = flags["max-in-flight"] !== undefined ? Number(flags["max-in-flight"]) : undefined;
+  if (!(rate > 0)) {
+    console.error(`Invalid --rate value: ${flags.rate}`);
+    process.exit(1);
+  }
+  if (maxInFlight !== undefined && !(Number.isInteger(maxInFlight) && maxInFlight > 0)) {
+    console.error(`Invalid --max-in-flight value: ${flags["max-in-flight"]}`);
+    process.exit(1);
+  }
+  if (profile) {
+    console.error("--rate cannot be combined with --profile");
+    process.exit(1);
+  }
+  if (!behavior.operation) {
+    console.error(`${behavior.name} does not support open-loop mode (--rate)`);
+    process.exit(1);
+  }
+  openLoop = { ratePerSecond: rate / workerCount, poisson: flags.poisson ?? false, maxInFlight };
+}
+
+let metricsPort: number | undefined;
+if (flags["metrics-port"] !== undefined) {
+  metricsPort = Number(flags["metrics-port"]);
+  if (!Number.isInteger(metricsPort) || metricsPort < 0 || metricsPort > 65535) {
+    console.error(`Invalid --metrics-port value: ${flags["metrics-port"]}`);
+    process.exit(1);
+  }
+}
+
+const REPORT_FORMATS: Record<string, (report: RunReport) => string> = {
+  ".json": (report) => JSON.stringify(report, null, 2) + "\n",
+  ".md": formatReportMarkdown,
+  ".html": formatReportHtml,
+};
+const reportPaths = flags.report ?? [];
+for (const path of reportPaths) {
+  if (!REPORT_FORMATS[extname(path).toLowerCase()]) {
+    console.error(`Invalid --report path: ${path} (expected .json, .md or .html)`);
+    process.exit(1);
+  }
+}
+
+// SLOs declared on the behavior (or its manifest entry), plus any from --slo
+const declaredSlos =
+  behavior.slos ?? manifest.behaviors.find((b) => b.key === behaviorKey)?.slos ?? [];
+let sloAbortFactor: number | undefined;
+if (flags["slo-abort"] !== undefined) {
+  sloAbortFactor = Number(flags["slo-abort"]);
+  if (!(sloAbortFactor > 1)) {
+    console.error(`Invalid --slo-abort value: ${flags["slo-abort"]} (expected a factor above 1)`);
+    process.exit(1);
+  }
+}
+let sloMonitor: SloMonitor;
+try {
+  sloMonitor = new SloMonitor([...declaredSlos, ...(flags.slo ?? [])], {
+    abortFactor: sloAbortFactor,
+  });
+} catch (err) {
+  console.error(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
+const SLO_CHECK_INTERVAL_MS = 5000;
+
+const otlpEndpoint = flags["otlp-endpoint"] ?? process.env.OTEL_EXPORTER_OTLP_ENDPOINT;
+const otlp = otlpEndpoint
+  ? new OtlpExporter({
+      endpoint: otlpEndpoint,
+      resourceAttributes: { "minion.base_seed": baseSeed },
+    })
+  : undefined;
+otlp?.setAttributes({ "minion.behavior": behaviorKey });
+
+const visibleId = `cli-${baseSeed.toString(36)}-${firstWorkerId}`;
 const userName = `CLI-${behaviorName}`;
 
 console.log(`User ID: ${visibleId}`);
 console.log(`Behavior: ${behavior.name}`);
 console.log(`Convex URL: ${CONVEX_URL}`);
+if (profile) {
+  console.log(`Load profile (${formatDuration(profileDurationMs(profile))}):`);
+  profile.phases.forEach((phase, i) => console.log(`  ${i + 1}. ${describePhase(phase)}`));
+} else {
+  console.log(`Workers: ${workerCount}${sharedClient ? " (shared client)" : ""}`);
+}
+if (useHttp) {
+  console.log("Transport: HTTP (polled subscriptions)");
+}
+if (openLoop) {
+  console.log(
+    `Open-loop: ${flags.rate} ops/s total${openLoop.poisson ? " (Poisson arrivals)" : ""}, ${openLoop.ratePerSecond.toFixed(2)} ops/s per worker`
+  );
+}
+console.log(`Seed: ${baseSeed}${explicitSeed ? "" : " (time-based; pass --seed to reproduce this run)"}`);
+if (firstWorkerId > 0) console.log(`First worker id: ${firstWorkerId}`);
+if (Object.keys(config).length > 0) console.log(`Config: ${JSON.stringify(config)}`);
+if (limits.durationMs !== undefined) console.log(`Duration limit: ${flags.duration}`);
+if (limits.maxOperations !== undefined) console.log(`Operation limit: ${limits.maxOperations}`);
+if (otlpEndpoint) console.log(`OTLP export: ${otlpEndpoint}`);
+if (flags.trace) console.log(`Trace: ${flags.trace}`);
+if (sloMonitor.size > 0) {
+  console.log(`SLOs: ${sloMonitor.labels.join(", ")}${sloAbortFactor ? ` (abort at ${sloAbortFactor}x)` : ""}`);
+}
 console.log("");
 
-const client = new ConvexClient(CONVEX_URL);
+type Client = ConvexClient | ConvexHttpClient;
 
-let shouldStop = false;
-let items: Item[] = [];
+function openClient(): Client {
+  return useHttp ? new ConvexHttpClient(CONVEX_URL!) : new ConvexClient(CONVEX_URL!);
+}
 
-process.on("SIGINT", () => {
-  console.log("\nStopping...");
-  shouldStop = true;
-  void client.close();
-  process.exit(0);
-});
-
-async function initialize(): Promise<void> {
-  console.log("Initializing...");
-}
-
-function subscribeToData() {
-  client.onUpdate(api.items.listItems, { limit: 1000 }, (result: any) => {
-    if (result) {
-      items = result.map((item: any) => ({
-        id: item._id,
-        title: item.title,
-        description: item.description,
-        status: item.status,
-        priority: item.priority,
-        ownerId: item.ownerId,
-        tags: item.tags,
-        createdAt: item.createdAt,
-        updatedAt: item.updatedAt,
-      }));
-    }
-  });
+async function closeClient(client: Client): Promise<void> {
+  if (client instanceof ConvexClient) {
+    await client.close();
+  }
 }
 
-function createContext(
-  log: (msg: string) => void,
-  checkStop: () => boolean,
-  seed: number
-): ItemsContext {
-  return {
-    random: new SeededRandom(seed),
-    sleep: (ms) => new Promise((r) => setTimeout(r, ms)),
-    shouldStop: checkStop,
-    log,
-
-    createItem: async (data) => {
-      return await client.mutation(api.items.createItem, {
-        title: data.title,
-        description: data.description,
-        status: data.status,
-        priority: data.priority,
-        tags: data.tags,
-      });
+/**
+ * Transport whose Convex calls are recorded for `worker` and exported as
+ * spans when OTLP is enabled. Open-loop runs record whole operations from
+ * their intended start instead, so calls only become spans there.
+ */
+function transportForWorker(client: Client, worker: WorkerInfo): ItemsTransport {
+  const options = {
+    latencySink: (rec: LatencyRecord) => {
+      worker.record(rec);
+      otlp?.recordSpan(rec, { "minion.seed": worker.seed });
     },
+    workerId: worker.workerId,
+  };
+  return client instanceof ConvexHttpClient
+    ? httpClientTransport(client, options)
+    : convexClientTransport(client, options);
+}
 
-    createItems: async (itemsData) => {
-      return await client.mutation(api.items.createItems, {
-        items: itemsData.map((item) => ({
-          title: item.title,
-          description: item.description,
-          status: item.status,
-          priority: item.priority,
-          tags: item.tags,
-        })),
-      });
-    },
+// Wait for initial subscription data
+const waitForInitialData = () => new Promise((r) => setTimeout(r, 1000));
 
-    updateItem: async (id, data) => {
-      await client.mutation(api.items.updateItem, {
-        id: id as Id<"items">,
-        title: data.title,
-        description: data.description,
-        status: data.status,
-        priority: data.priority,
-        tags: data.tags,
-      });
-    },
+function printSummary(metrics: LatencyMetrics, errorMessages: Record<string, number>) {
+  console.log(`Throughput: ${metrics.opsPerSecond.toFixed(1)} ops/s`);
+  if (metrics.successCount > 0) {
+    console.log(
+      `Latency: p50 ${metrics.latencyP50}ms, p95 ${metrics.latencyP95}ms, p99 ${metrics.latencyP99}ms, max ${metrics.latencyMax}ms`
+    );
+  }
+  if (metrics.errorCount > 0) {
+    const conflicts = countWriteConflicts(errorMessages);
+    console.log(
+      `Errors: ${metrics.errorCount}${conflicts > 0 ? ` (${conflicts} write conflicts, ${metrics.errorCount - conflicts} other)` : ""}`
+    );
+  }
+  const propagation = metrics.byType.propagation;
+  if (propagation.count > 0) {
+    console.log(
+      `Propagation: ${propagation.count} updates, p50 ${propagation.latencyP50}ms, p95 ${propagation.latencyP95}ms, p99 ${propagation.latencyP99}ms, max ${propagation.latencyMax}ms`
+    );
+  }
+  const updates = metrics.byType.update;
+  if (updates.count > 0) {
+    console.log(
+      `Subscription updates: ${updates.count}, interval p50 ${updates.latencyP50}ms, p95 ${updates.latencyP95}ms, p99 ${updates.latencyP99}ms, max ${updates.latencyMax}ms`
+    );
+  }
+  const functions = Object.entries(metrics.byFunction);
+  if (functions.length > 1) {
+    console.log("By function:");
+    for (const [name, fn] of functions.sort((a, b) => b[1].count - a[1].count)) {
+      console.log(
+        `  ${name}: ${fn.count} ops, ${fn.errorCount} errors, p50 ${fn.latencyP50}ms, p95 ${fn.latencyP95}ms, p99 ${fn.latencyP99}ms, max ${fn.latencyMax}ms`
+      );
+    }
+  }
+}
 
-    deleteItem: async (id) => {
-      await client.mutation(api.items.deleteItem, {
-        id: id as Id<"items">,
-      });
-    },
+type IntervalMetrics = Pick<
+  LatencyMetrics,
+  "opsPerSecond" | "latencyP50" | "latencyP95" | "latencyP99" | "errorCount"
+>;
 
-    getItems: () => items,
+function formatIntervalMetrics(metrics: IntervalMetrics): string {
+  return `${metrics.opsPerSecond.toFixed(1)} ops/s, p50 ${metrics.latencyP50}ms, p95 ${metrics.latencyP95}ms, p99 ${metrics.latencyP99}ms, ${metrics.errorCount} errors`;
+}
 
-    getItemsByStatus: (status) => items.filter((item) => item.status === status),
+function printPhaseTable(phases: LoadPhaseResult[]) {
+  console.log("Phases:");
+  for (const { index, phase, peakWorkers, metrics } of phases) {
+    console.log(
+      `  ${index + 1}. ${describePhase(phase)} (peak ${peakWorkers} workers): ${metrics.totalCount} ops, ${formatIntervalMetrics(metrics)}`
+    );
+  }
+}
 
-    getItemsByPriority: (priority) => items.filter((item) => item.priority === priority),
+/**
+ * Evaluate SLOs against the metrics so far, logging objectives that start
+ * or stop failing, and abort the pool once one is badly violated.
+ */
+function checkSlos(pool: WorkerPool<ItemsContext>) {
+  for (const result of sloMonitor.check(pool.getMetrics())) {
+    console.log(`[slo] ${formatSloResults([result])}`);
+  }
+  const cause = sloMonitor.getAbortCause();
+  if (cause && !pool.shouldStop()) {
+    console.log(`[slo] Aborting: ${cause.label} violated by more than ${sloAbortFactor}x`);
+    pool.abort("slo");
+  }
+}
 
-    getRandomItem: () => {
-      if (items.length === 0) return null;
-      const randomIndex = Math.floor(Math.random() * items.length);
-      return items[randomIndex];
+function writeReports(
+  pool: WorkerPool<ItemsContext>,
+  summary: WorkerPoolSummary,
+  phases: LoadPhaseResult[]
+) {
+  const endTime = Date.now();
+  const interval = chooseTimeSeriesInterval(summary.durationMs);
+  const report = buildRunReport({
+    metadata: {
+      behaviorKey,
+      behaviorName: behavior.name,
+      seed: baseSeed,
+      workerCount: profile
+        ? Math.max(0, ...profile.phases.map((p) => Math.max(p.from, p.to)))
+        : workerCount,
+      convexUrl: CONVEX_URL,
+      options: {
+        limits,
+        profile: flags.profile,
+        openLoop,
+        sharedClient,
+        http: useHttp,
+        firstWorkerId,
+        config,
+        trace: flags.trace,
+      },
+      startTime: endTime - summary.durationMs,
+      endTime,
+      durationMs: summary.durationMs,
     },
+    snapshot: summary.snapshot,
+    timeSeries: pool.getTimeSeries(interval),
+    timeSeriesIntervalMs: interval,
+    run: summary.run,
+    phases: phases.map((p) => ({
+      name: describePhase(p.phase),
+      peakWorkers: p.peakWorkers,
+      durationMs: p.durationMs,
+      metrics: p.metrics,
+    })),
+    slos: sloMonitor.size > 0 ? sloMonitor.getResults() : undefined,
+    workers: summary.workers,
+  });
 
-    getItemCount: () => items.length,
-  };
+  for (const path of reportPaths) {
+    writeFileSync(path, REPORT_FORMATS[extname(path).toLowerCase()](report));
+    console.log(`Report written to ${path}`);
+  }
 }
 
 async function main() {
-  try {
-    await initialize();
-    subscribeToData();
+  // Offsets in the trace are measured from here, for every worker
+  const trace = flags.trace ? new TraceFileWriter(flags.trace) : undefined;
+  const traceStart = Date.now();
+  const pool = new WorkerPool<ItemsContext>({
+    behavior,
+    behaviorKey,
+    baseSeed,
+    firstWorkerId,
+    config,
+    limits,
+    openLoop,
+    log: (workerId, msg) => {
+      const ts = new Date().toLocaleTimeString();
+      const prefix = workerCount > 1 || profile ? `[w${workerId}] ` : "";
+      console.log(`[${ts}] ${prefix}${msg}`);
+    },
+    createContext: async (worker) => {
+      const client = shared ?? openClient();
+      const ctx = createItemsContext(transportForWorker(client, worker), {
+        random: new SeededRandom(worker.seed),
+        shouldStop: worker.shouldStop,
+        log: worker.log,
+        workerId: worker.workerId,
+        config: worker.config,
+        propagationSink: observe,
+      });
+      if (trace) {
+        traceItemsContext(ctx, trace, { workerId: worker.workerId, startTime: traceStart });
+      }
+      await waitForInitialData();
+      return {
+        ctx,
+        close: async () => {
+          ctx.close();
+          if (!shared) await closeClient(client);
+        },
+      };
+    },
+  });
+  // Stamped writes showing up in a worker's items cache, as propagation latency
+  const observe = (rec: LatencyRecord) => {
+    pool.observe(rec);
+    otlp?.recordSpan(rec);
+  };
+  const shared = sharedClient ? openClient() : undefined;
 
-    // Wait for initial subscription data
-    await new Promise((r) => setTimeout(r, 1000));
+  // First Ctrl+C stops workers gracefully, a second one exits immediately
+  process.on("SIGINT", () => {
+    if (pool.isStopped()) {
+      process.exit(1);
+    }
+    console.log("\nStopping... (press Ctrl+C again to force)");
+    pool.stop();
+  });
+
+  let exitCode = 0;
+  let metricsServer: MetricsServer | undefined;
+  const sloTimer =
+    sloMonitor.size > 0 ? setInterval(() => checkSlos(pool), SLO_CHECK_INTERVAL_MS) : undefined;
+  const otlpMetricsTimer = otlp
+    ? setInterval(() => void otlp.exportMetrics(pool.getSnapshot()), 10_000)
+    : undefined;
+  try {
+    if (metricsPort !== undefined) {
+      metricsServer = await startMetricsServer(
+        () =>
+          formatPrometheus({
+            behaviorKey,
+            snapshot: pool.getSnapshot(),
+            activeWorkers: pool.activeWorkers,
+            customMetrics: pool.getCustomMetrics(),
+          }),
+        metricsPort
+      );
+      console.log(`Metrics: http://localhost:${metricsServer.port}/metrics`);
+    }
 
     console.log(`\nStarting ${behavior.name}...`);
     console.log("---");
 
-    const ctx = createContext(
-      (msg) => {
-        const ts = new Date().toLocaleTimeString();
-        console.log(`[${ts}] ${msg}`);
-      },
-      () => shouldStop,
-      Date.now()
-    );
-
-    await behavior.init(ctx);
-    if (!shouldStop) {
-      await behavior.run(ctx);
+    let phases: LoadPhaseResult[] = [];
+    let summary;
+    if (profile) {
+      const result = await runLoadProfile(pool, profile, {
+        reportIntervalMs,
+        onPhaseStart: (phase, index) => {
+          console.log(`[profile] Phase ${index + 1}/${profile.phases.length}: ${describePhase(phase)}`);
+        },
+        onReport: (report) => {
+          console.log(
+            `[profile] ${formatDuration(report.elapsedMs)} workers ${report.activeWorkers}/${report.targetWorkers}: ${formatIntervalMetrics(report.metrics)}`
+          );
+        },
+      });
+      summary = result.summary;
+      phases = result.phases;
+    } else {
+      // Print each completed time-series window as it closes
+      let lastReported = 0;
+      const reportTimer =
+        reportIntervalMs > 0
+          ? setInterval(() => {
+              const window = pool
+                .getTimeSeries(reportIntervalMs)
+                .filter((bucket) => !bucket.partial)
+                .pop();
+              if (!window || window.start <= lastReported) return;
+              lastReported = window.start;
+              const time = new Date(window.start).toLocaleTimeString();
+              console.log(`[interval ${time}] ${formatIntervalMetrics(window)}`);
+            }, reportIntervalMs)
+          : undefined;
+      try {
+        summary = await pool.run(workerCount);
+      } finally {
+        clearInterval(reportTimer);
+      }
     }
 
+    clearInterval(sloTimer);
     console.log("---");
-    console.log("Behavior completed");
+    console.log(formatRunSummary(summary.run));
+    printSummary(summary.metrics, summary.snapshot.errorMessages);
+    if (phases.length > 0) {
+      printPhaseTable(phases);
+    }
+    if (sloMonitor.size > 0) {
+      const results = sloMonitor.evaluate(summary.metrics);
+      console.log("SLOs:");
+      console.log(formatSloResults(results).replace(/^/gm, "  "));
+      if (results.some((r) => !r.passed)) {
+        exitCode = 1;
+      }
+    }
+    const failed = summary.workers.filter((w) => w.error);
+    if (failed.length > 0) {
+      console.log(`Failed workers: ${failed.map((w) => `w${w.workerId}`).join(", ")}`);
+    }
+    if (exitCode !== 0 || failed.length > 0) {
+      const workerIdFlag = firstWorkerId > 0 ? ` --worker-id ${firstWorkerId}` : "";
+      console.log(`Reproduce with: --seed ${baseSeed}${workerIdFlag}`);
+    }
+    if (reportPaths.length > 0) {
+      writeReports(pool, summary, phases);
+    }
   } catch (err) {
     console.error("Error:", err);
+    exitCode = 1;
   } finally {
-    void client.close();
-    process.exit(0);
+    clearInterval(sloTimer);
+    if (shared) {
+      void closeClient(shared);
+    }
+    if (metricsServer) {
+      await metricsServer.close();
+    }
+    if (otlp) {
+      clearInterval(otlpMetricsTimer);
+      await otlp.exportMetrics(pool.getSnapshot());
+      await otlp.shutdown();
+    }
+    if (trace) {
+      try {
+        await trace.close();
+        console.log(`Trace written to ${trace.path} (${trace.entries} operations)`);
+      } catch (err) {
+        console.error(err instanceof Error ? err.message : String(err));
+        exitCode = 1;
+      }
+    }
+    process.exit(exitCode);
   }
 }
 
@@ -1,20 +1,40 @@
-import { useState, useCallback } from "react";
-import { useMutation, useQuery } from "convex/react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useConvex } from "convex/react";
 import { api } from "../convex/_generated/api";
-import { Id } from "../convex/_generated/dataModel";
 import {
   useMinionRunner,
   MinionPanel,
   MinionToggle,
   SeededRandom,
+  useTrackedMutation,
+  useTrackedQuery,
+  useLatencyContext,
+  PropagationTracker,
 } from "../lib/minion-benchmark";
-import { behaviors } from "./minions";
-import type { ItemsContext, Item } from "./minions";
+import { behaviors, createItemsContext, reactClientTransport } from "./minions";
+import type { ItemsContext, ItemsContextHandle } from "./minions";
+
+/**
+ * Random stream for this browser's identity. Its seed is picked once (like a
+ * run's time-based seed) and stored, so the identity comes from SeededRandom
+ * like every other random choice and can be reproduced from the seed.
+ */
+function identityRandom(label: string): SeededRandom {
+  let seed = Number(localStorage.getItem("items-identity-seed"));
+  if (!Number.isInteger(seed) || seed <= 0) {
+    seed = Date.now() >>> 0 || 1;
+    localStorage.setItem("items-identity-seed", String(seed));
+  }
+  return new SeededRandom(seed).fork(label);
+}
 
 function getUserId(): string {
   const stored = localStorage.getItem("items-user-id");
   if (stored) return stored;
-  const newId = `user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const suffix = Math.floor(identityRandom("user-id").next() * 36 ** 6)
+    .toString(36)
+    .padStart(6, "0");
+  const newId = `user-${Date.now()}-${suffix}`;
   localStorage.setItem("items-user-id", newId);
   return newId;
 }
@@ -23,7 +43,7 @@ function getUserName(): string {
   const stored = localStorage.getItem("items-user-name");
   if (stored) return stored;
   const names = ["Alex", "Jordan", "Sam", "Taylor", "Morgan", "Casey", "Riley"];
-  const newName = names[Math.floor(Math.random() * names.length)];
+  const newName = identityRandom("user-name").pick(names);
   localStorage.setItem("items-user-name", newName);
   return newName;
 }
@@ -34,123 +54,53 @@ export default function App() {
   const [minionMode, setMinionMode] = useState(false);
   const [statusFilter, setStatusFilter] = useState<string | undefined>(undefined);
 
-  // Items queries
-  const items = useQuery(api.items.listItems, { status: statusFilter, limit: 100 });
-
-  // Mutations
-  const createItemMutation = useMutation(api.items.createItem);
-  const createItemsMutation = useMutation(api.items.createItems);
-  const updateItemMutation = useMutation(api.items.updateItem);
-  const deleteItemMutation = useMutation(api.items.deleteItem);
-
-  // Context factory for minion runner
-  const createContext = useCallback(
-    (log: (msg: string) => void, shouldStop: () => boolean, seed: number): ItemsContext => ({
-      random: new SeededRandom(seed),
-      sleep: (ms) => new Promise((r) => setTimeout(r, ms)),
-      shouldStop,
-      log,
-
-      createItem: async (data) => {
-        return await createItemMutation({
-          title: data.title,
-          description: data.description,
-          status: data.status,
-          priority: data.priority,
-          tags: data.tags,
-        });
-      },
-
-      createItems: async (itemsData) => {
-        return await createItemsMutation({
-          items: itemsData.map((item) => ({
-            title: item.title,
-            description: item.description,
-            status: item.status,
-            priority: item.priority,
-            tags: item.tags,
-          })),
-        });
-      },
+  // Items queries (latency-tracked, same records as the headless tracked client)
+  const items = useTrackedQuery(api.items.listItems, { status: statusFilter, limit: 100 });
 
-      updateItem: async (id, data) => {
-        await updateItemMutation({
-          id: id as Id<"items">,
-          title: data.title,
-          description: data.description,
-          status: data.status,
-          priority: data.priority,
-          tags: data.tags,
-        });
-      },
-
-      deleteItem: async (id) => {
-        await deleteItemMutation({ id: id as Id<"items"> });
-      },
-
-      getItems: (): Item[] =>
-        (items ?? []).map((item) => ({
-          id: item._id,
-          title: item.title,
-          description: item.description,
-          status: item.status,
-          priority: item.priority,
-          ownerId: item.ownerId,
-          tags: item.tags,
-          createdAt: item.createdAt,
-          updatedAt: item.updatedAt,
-        })),
-
-      getItemsByStatus: (status) =>
-        (items ?? [])
-          .filter((item) => item.status === status)
-          .map((item) => ({
-            id: item._id,
-            title: item.title,
-            description: item.description,
-            status: item.status,
-            priority: item.priority,
-            ownerId: item.ownerId,
-            tags: item.tags,
-            createdAt: item.createdAt,
-            updatedAt: item.updatedAt,
-          })),
+  // Propagation latency of stamped writes (from any client) reaching this subscription
+  const latencyCtx = useLatencyContext();
+  const propagation = useMemo(
+    () =>
+      new PropagationTracker((rec) => latencyCtx?.record(rec), {
+        functionName: "items:listItems",
+      }),
+    [latencyCtx]
+  );
+  useEffect(() => propagation.reset(), [propagation, statusFilter]);
+  useEffect(() => {
+    if (items) propagation.observe(items.map((item) => item.stamp));
+  }, [items, propagation]);
 
-      getItemsByPriority: (priority) =>
-        (items ?? [])
-          .filter((item) => item.priority === priority)
-          .map((item) => ({
-            id: item._id,
-            title: item.title,
-            description: item.description,
-            status: item.status,
-            priority: item.priority,
-            ownerId: item.ownerId,
-            tags: item.tags,
-            createdAt: item.createdAt,
-            updatedAt: item.updatedAt,
-          })),
+  // Behaviors get the same context as headless workers, on the hooks' client
+  const convex = useConvex();
+  const transport = useMemo(
+    () => reactClientTransport(convex, { latencySink: (rec) => latencyCtx?.record(rec) }),
+    [convex, latencyCtx]
+  );
 
-      getRandomItem: () => {
-        if (!items || items.length === 0) return null;
-        const randomIndex = Math.floor(Math.random() * items.length);
-        const item = items[randomIndex];
-        return {
-          id: item._id,
-          title: item.title,
-          description: item.description,
-          status: item.status,
-          priority: item.priority,
-          ownerId: item.ownerId,
-          tags: item.tags,
-          createdAt: item.createdAt,
-          updatedAt: item.updatedAt,
-        };
-      },
+  const createItemMutation = useTrackedMutation(api.items.createItem);
 
-      getItemCount: () => (items ?? []).length,
-    }),
-    [items, createItemMutation, createItemsMutation, updateItemMutation, deleteItemMutation]
+  // Context factory for minion runner; only one run at a time, so the
+  // previous run's subscriptions are closed when the next one starts
+  const runContext = useRef<ItemsContextHandle | undefined>(undefined);
+  useEffect(() => () => runContext.current?.close(), []);
+  const createContext = useCallback(
+    (
+      log: (msg: string) => void,
+      shouldStop: () => boolean,
+      seed: number,
+      config: Record<string, unknown>
+    ): ItemsContext => {
+      runContext.current?.close();
+      runContext.current = createItemsContext(transport, {
+        random: new SeededRandom(seed),
+        shouldStop,
+        log,
+        config,
+      });
+      return runContext.current;
+    },
+    [transport]
   );
 
   const minion = useMinionRunner(behaviors, createContext);
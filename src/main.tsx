@@ -1,6 +1,7 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
 import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { LatencyProvider } from "../lib/minion-benchmark";
 import App from "./App.tsx";
 import "./index.css";
 
@@ -8,8 +9,10 @@ const convex = new ConvexReactClient(import.meta.env.VITE_CONVEX_URL as string);
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
-    <ConvexProvider client={convex}>
-      <App />
-    </ConvexProvider>
+    <LatencyProvider>
+      <ConvexProvider client={convex}>
+        <App />
+      </ConvexProvider>
+    </LatencyProvider>
   </StrictMode>
 );
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import {
+  isWriteConflict,
+  type BehaviorContext,
+  type MinionBehavior,
+} from "../../../lib/minion-benchmark";
+import type { ItemsContext } from "../types";
+
+export const hotspotConfigSchema = z.object({
+  target: z
+    .enum(["items", "counter"])
+    .default("items")
+    .describe("items = update shared items, counter = increment shared counter documents"),
+  keys: z
+    .number()
+    .min(1)
+    .max(1000)
+    .default(10)
+    .describe("Number of shared items or counters all workers write to"),
+  skew: z
+    .number()
+    .min(0)
+    .max(5)
+    .default(1)
+    .describe("Zipf exponent of the key distribution (0 = uniform, higher = hotter top key)"),
+  pauseMs: z
+    .number()
+    .min(0)
+    .max(10000)
+    .default(0)
+    .describe("Maximum random pause between writes (ms)"),
+});
+
+export type HotspotConfig = z.infer<typeof hotspotConfigSchema>;
+
+type HotspotContext = BehaviorContext<ItemsContext, HotspotConfig>;
+
+const STATUSES = ["pending", "active", "completed"];
+
+/**
+ * Per-context hotspot state, shared by run() and operation().
+ */
+interface HotspotState {
+  /** Shared item ids (items target), hottest first */
+  itemIds: string[];
+  /** Number of keys actually contended on (fewer than configured if items are scarce) */
+  keyCount: number;
+  writes: number;
+  conflicts: number;
+  otherErrors: number;
+  /** Convex function called by the latest writeOnce() */
+  lastFunction?: string;
+}
+
+const hotspotStates = new WeakMap<ItemsContext, HotspotState>();
+
+function getHotspotState(ctx: HotspotContext): HotspotState {
+  let state = hotspotStates.get(ctx);
+  if (!state) {
+    state = {
+      itemIds: [],
+      keyCount: ctx.config.keys,
+      writes: 0,
+      conflicts: 0,
+      otherErrors: 0,
+    };
+    hotspotStates.set(ctx, state);
+  }
+  return state;
+}
+
+/**
+ * Write to one key picked from the configured distribution. Throws if the
+ * mutation fails.
+ */
+async function writeOnce(ctx: HotspotContext, state: HotspotState): Promise<void> {
+  state.writes++;
+  const key = ctx.random.zipf(state.keyCount, ctx.config.skew);
+
+  if (ctx.config.target === "counter") {
+    state.lastFunction = "counters:bumpCounter";
+    await ctx.bumpCounter(`hotspot:${key}`);
+    return;
+  }
+
+  state.lastFunction = "items:updateItem";
+  await ctx.updateItem(state.itemIds[key], {
+    status: ctx.random.pick(STATUSES),
+    priority: ctx.random.int(1, 6),
+  });
+}
+
+/**
+ * Count a failed write as a write conflict or another error.
+ */
+function countFailure(ctx: ItemsContext, state: HotspotState, err: unknown): void {
+  if (isWriteConflict(err)) {
+    state.conflicts++;
+    ctx.log.metric?.("writeConflicts", 1, "inc");
+  } else {
+    state.otherErrors++;
+    ctx.log.metric?.("otherErrors", 1, "inc");
+  }
+}
+
+/**
+ * Hotspot Minion
+ *
+ * Contention workload: every worker writes to the same small set of keys
+ * (shared items or unsharded counter documents), picked from a Zipf
+ * distribution so a few keys are much hotter than the rest. Run it with
+ * many workers to see OCC retries in the latency tail, throughput collapse,
+ * and write conflicts once Convex's retries are exhausted.
+ */
+export const hotspotBehavior: MinionBehavior<ItemsContext, HotspotConfig> = {
+  name: "Hotspot",
+  description: "Write contention - many workers update a few shared keys (Zipf-distributed)",
+  configSchema: hotspotConfigSchema,
+
+  async init(ctx) {
+    const state = getHotspotState(ctx);
+    const { target, keys, skew } = ctx.config;
+
+    if (target === "items") {
+      // Newest items are the same for every worker as long as nothing else creates items
+      const items = await ctx.fetchItems({ limit: keys });
+      if (items.length === 0) {
+        throw new Error("No items to contend on. Run the Seeder first, or use target: counter");
+      }
+      if (items.length < keys) {
+        ctx.log(`WARNING: Only ${items.length} items found; contending on those`);
+        state.keyCount = items.length;
+      }
+      state.itemIds = items.map((item) => item.id);
+    }
+
+    ctx.log(`Hotspot initialized - ${state.keyCount} shared ${target === "items" ? "items" : "counters"}, skew ${skew}`);
+  },
+
+  async run(ctx) {
+    ctx.log("Starting contention loop...");
+
+    const state = getHotspotState(ctx);
+    const startTime = Date.now();
+
+    while (!ctx.shouldStop()) {
+      const opStart = Date.now();
+      let success = true;
+
+      try {
+        await writeOnce(ctx, state);
+      } catch (err) {
+        success = false;
+        countFailure(ctx, state, err);
+        if (!isWriteConflict(err)) {
+          ctx.log(`ERROR: Write failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+
+      if (ctx.reportMetric) {
+        ctx.reportMetric(Date.now() - opStart, success, state.lastFunction);
+      }
+
+      // Log progress periodically
+      if (state.writes % 100 === 0) {
+        const elapsed = Math.round((Date.now() - startTime) / 1000);
+        const rate = Math.round(state.writes / Math.max(1, elapsed));
+        ctx.log(`Progress: ${state.writes} writes, ${state.conflicts} conflicts, ${state.otherErrors} other errors (${rate} ops/s)`);
+      }
+
+      if (ctx.config.pauseMs > 0) {
+        await ctx.sleep(ctx.random.int(0, ctx.config.pauseMs + 1));
+      }
+    }
+
+    const totalTime = Math.round((Date.now() - startTime) / 1000);
+    ctx.log(`Hotspot complete: ${state.writes} writes, ${state.conflicts} conflicts, ${state.otherErrors} other errors in ${totalTime}s`);
+  },
+
+  async operation(ctx) {
+    const state = getHotspotState(ctx);
+    try {
+      await writeOnce(ctx, state);
+    } catch (err) {
+      countFailure(ctx, state, err);
+      throw err;
+    }
+  },
+};
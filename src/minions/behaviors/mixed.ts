@@ -12,6 +12,109 @@ const TITLES = [
 const TAGS = ["urgent", "backend", "frontend", "bug", "feature"];
 const STATUSES = ["pending", "active", "completed"];
 
+/**
+ * Per-context counters, shared by run() and operation().
+ */
+interface MixedState {
+  iterations: number;
+  reads: number;
+  writes: number;
+  /** Convex function called by the latest mixOnce(); unset for local reads */
+  lastFunction?: string;
+}
+
+const mixedStates = new WeakMap<ItemsContext, MixedState>();
+
+function getMixedState(ctx: ItemsContext): MixedState {
+  let state = mixedStates.get(ctx);
+  if (!state) {
+    state = { iterations: 0, reads: 0, writes: 0 };
+    mixedStates.set(ctx, state);
+  }
+  return state;
+}
+
+/**
+ * Perform one read (70%) or write (30%). Throws if a write fails.
+ */
+async function mixOnce(ctx: ItemsContext, state: MixedState): Promise<void> {
+  state.iterations++;
+  state.lastFunction = undefined;
+
+  // Decide: read (70%) or write (30%)
+  const isRead = ctx.random.next() < 0.7;
+
+  if (isRead) {
+    // Read operation
+    const readOp = ctx.random.int(0, 4);
+
+    switch (readOp) {
+      case 0: {
+        ctx.getItems();
+        break;
+      }
+      case 1: {
+        const status = ctx.random.pick(STATUSES);
+        ctx.getItemsByStatus(status);
+        break;
+      }
+      case 2: {
+        const priority = ctx.random.int(1, 6);
+        ctx.getItemsByPriority(priority);
+        break;
+      }
+      case 3: {
+        ctx.getRandomItem();
+        break;
+      }
+    }
+
+    state.reads++;
+  } else {
+    // Write operation
+    const writeOp = ctx.random.int(0, 3);
+
+    switch (writeOp) {
+      case 0: {
+        // Create
+        const title = `${ctx.random.pick(TITLES)} #${ctx.random.int(0, 10000)}`;
+        state.lastFunction = "items:createItem";
+        await ctx.createItem({
+          title,
+          status: ctx.random.pick(STATUSES),
+          priority: ctx.random.int(1, 6),
+          tags: ctx.random.shuffle([...TAGS]).slice(0, ctx.random.int(0, 3)),
+        });
+
+        if (state.iterations % 100 === 1) {
+          ctx.log(`Created: ${title}`);
+        }
+        break;
+      }
+
+      case 1:
+      case 2: {
+        // Update (more common than create)
+        const item = ctx.getRandomItem();
+        if (item) {
+          state.lastFunction = "items:updateItem";
+          await ctx.updateItem(item.id, {
+            status: ctx.random.pick(STATUSES),
+            priority: ctx.random.int(1, 6),
+          });
+
+          if (state.iterations % 100 === 1) {
+            ctx.log(`Updated: ${item.title}`);
+          }
+        }
+        break;
+      }
+    }
+
+    state.writes++;
+  }
+}
+
 /**
  * Mixed Minion
  *
@@ -39,103 +142,30 @@ export const mixedBehavior: MinionBehavior<ItemsContext> = {
   async run(ctx) {
     ctx.log("Starting mixed workload (70% reads, 30% writes)...");
 
-    let iterations = 0;
-    let reads = 0;
-    let writes = 0;
+    const state = getMixedState(ctx);
     const startTime = Date.now();
 
     while (!ctx.shouldStop()) {
-      iterations++;
-
       const opStart = Date.now();
       let success = true;
 
       try {
-        // Decide: read (70%) or write (30%)
-        const isRead = ctx.random.next() < 0.7;
-
-        if (isRead) {
-          // Read operation
-          const readOp = ctx.random.int(0, 4);
-
-          switch (readOp) {
-            case 0: {
-              ctx.getItems();
-              break;
-            }
-            case 1: {
-              const status = ctx.random.pick(STATUSES);
-              ctx.getItemsByStatus(status);
-              break;
-            }
-            case 2: {
-              const priority = ctx.random.int(1, 6);
-              ctx.getItemsByPriority(priority);
-              break;
-            }
-            case 3: {
-              ctx.getRandomItem();
-              break;
-            }
-          }
-
-          reads++;
-        } else {
-          // Write operation
-          const writeOp = ctx.random.int(0, 3);
-
-          switch (writeOp) {
-            case 0: {
-              // Create
-              const title = `${ctx.random.pick(TITLES)} #${Date.now() % 10000}`;
-              await ctx.createItem({
-                title,
-                status: ctx.random.pick(STATUSES),
-                priority: ctx.random.int(1, 6),
-                tags: ctx.random.shuffle([...TAGS]).slice(0, ctx.random.int(0, 3)),
-              });
-
-              if (iterations % 100 === 1) {
-                ctx.log(`Created: ${title}`);
-              }
-              break;
-            }
-
-            case 1:
-            case 2: {
-              // Update (more common than create)
-              const item = ctx.getRandomItem();
-              if (item) {
-                await ctx.updateItem(item.id, {
-                  status: ctx.random.pick(STATUSES),
-                  priority: ctx.random.int(1, 6),
-                });
-
-                if (iterations % 100 === 1) {
-                  ctx.log(`Updated: ${item.title}`);
-                }
-              }
-              break;
-            }
-          }
-
-          writes++;
-        }
+        await mixOnce(ctx, state);
       } catch (err) {
         success = false;
         ctx.log(`ERROR: Operation failed: ${err}`);
       }
 
       if (ctx.reportMetric) {
-        ctx.reportMetric(Date.now() - opStart, success);
+        ctx.reportMetric(Date.now() - opStart, success, state.lastFunction);
       }
 
       // Log progress periodically
-      if (iterations % 200 === 0) {
+      if (state.iterations % 200 === 0) {
         const elapsed = Math.round((Date.now() - startTime) / 1000);
-        const rate = Math.round(iterations / Math.max(1, elapsed));
-        const readPct = Math.round((reads / iterations) * 100);
-        ctx.log(`Progress: ${reads} reads, ${writes} writes (${readPct}% reads, ${rate} ops/s)`);
+        const rate = Math.round(state.iterations / Math.max(1, elapsed));
+        const readPct = Math.round((state.reads / state.iterations) * 100);
+        ctx.log(`Progress: ${state.reads} reads, ${state.writes} writes (${readPct}% reads, ${rate} ops/s)`);
       }
 
       // Variable delay based on operation type
@@ -144,7 +174,11 @@ export const mixedBehavior: MinionBehavior<ItemsContext> = {
     }
 
     const totalTime = Math.round((Date.now() - startTime) / 1000);
-    const readPct = Math.round((reads / iterations) * 100);
-    ctx.log(`Mixed workload complete: ${reads} reads, ${writes} writes (${readPct}% reads) in ${totalTime}s`);
+    const readPct = Math.round((state.reads / state.iterations) * 100);
+    ctx.log(`Mixed workload complete: ${state.reads} reads, ${state.writes} writes (${readPct}% reads) in ${totalTime}s`);
+  },
+
+  async operation(ctx) {
+    await mixOnce(ctx, getMixedState(ctx));
   },
 };
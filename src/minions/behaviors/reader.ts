@@ -1,6 +1,6 @@
 import { z } from "zod";
-import type { MinionBehavior } from "../../../lib/minion-benchmark";
-import type { ItemsContext } from "../types";
+import type { BehaviorContext, MinionBehavior } from "../../../lib/minion-benchmark";
+import type { ItemsContext, Item } from "../types";
 
 export const readerConfigSchema = z.object({
   numProjects: z
@@ -8,32 +8,239 @@ export const readerConfigSchema = z.object({
     .min(0)
     .max(1000)
     .default(0)
-    .describe("Number of projects to partition across (0 = no partitioning)"),
+    .describe(
+      "Number of projects to partition across: worker n's listItems queries, subscriptions and counts read project n % numProjects (0 = no partitioning)"
+    ),
+  mode: z
+    .enum(["query", "churn", "mixed", "cache"])
+    .default("query")
+    .describe(
+      "query = one-shot server queries, churn = open and close subscriptions with varying args, mixed = both, cache = local subscription cache reads only"
+    ),
+  limit: z
+    .number()
+    .min(1)
+    .max(1000)
+    .default(100)
+    .describe("Maximum items per list query or subscription"),
+  subscriptions: z
+    .number()
+    .min(1)
+    .max(100)
+    .default(5)
+    .describe("Subscriptions each worker keeps open in churn mode"),
+  holdMs: z
+    .number()
+    .min(0)
+    .max(60000)
+    .default(1000)
+    .describe("How long a churned subscription stays open after its first result (ms)"),
 });
 
 export type ReaderConfig = z.infer<typeof readerConfigSchema>;
 
+type ReaderContext = BehaviorContext<ItemsContext, ReaderConfig>;
+
 const STATUSES = ["pending", "active", "completed"];
 
+// Churned subscriptions that have not delivered a result by then count as failed
+const FIRST_RESULT_TIMEOUT_MS = 10_000;
+
+/**
+ * Per-context reader state, shared by run() and operation().
+ */
+interface ReaderState {
+  /** Ids and owners seen in query results, for getItem / listByOwner */
+  knownIds: string[];
+  knownOwners: string[];
+  /** Open churn subscriptions, oldest first */
+  subscriptions: Array<{ unsubscribe: () => void; closeAt: number }>;
+  iterations: number;
+  /** Convex function called by the latest readOnce(); unset for cache reads */
+  lastFunction?: string;
+}
+
+const readerStates = new WeakMap<ItemsContext, ReaderState>();
+
+function getReaderState(ctx: ItemsContext): ReaderState {
+  let state = readerStates.get(ctx);
+  if (!state) {
+    state = { knownIds: [], knownOwners: [], subscriptions: [], iterations: 0 };
+    readerStates.set(ctx, state);
+  }
+  return state;
+}
+
+/**
+ * Remember ids and owners from a result, bounded so long runs don't grow.
+ */
+function learn(state: ReaderState, items: Item[]): void {
+  for (const item of items) {
+    state.knownIds.push(item.id);
+    if (item.ownerId) state.knownOwners.push(item.ownerId);
+  }
+  state.knownIds = state.knownIds.slice(-1000);
+  state.knownOwners = state.knownOwners.slice(-100);
+}
+
+/**
+ * One local read from the subscription cache (no Convex round trip).
+ */
+function readCache(ctx: ItemsContext): string {
+  switch (ctx.random.int(0, 5)) {
+    case 0:
+      return `Read all: ${ctx.getItems().length} items`;
+    case 1: {
+      const status = ctx.random.pick(STATUSES);
+      return `Read by status "${status}": ${ctx.getItemsByStatus(status).length} items`;
+    }
+    case 2: {
+      const priority = ctx.random.int(1, 6);
+      return `Read by priority ${priority}: ${ctx.getItemsByPriority(priority).length} items`;
+    }
+    case 3: {
+      const item = ctx.getRandomItem();
+      return `Random item: ${item ? item.title : "none"}`;
+    }
+    default:
+      return `Item count: ${ctx.getItemCount()}`;
+  }
+}
+
+/**
+ * One one-shot server query. Throws if the query fails.
+ */
+async function queryOnce(ctx: ReaderContext, state: ReaderState): Promise<string> {
+  const { limit } = ctx.config;
+  const op = ctx.random.int(0, 5);
+
+  // getItem and listByOwner need ids from earlier results; list first until we have some
+  if (op === 1 && state.knownIds.length > 0) {
+    state.lastFunction = "items:getItem";
+    const item = await ctx.fetchItem(ctx.random.pick(state.knownIds));
+    return `Get item: ${item ? item.title : "deleted"}`;
+  }
+  if (op === 2 && state.knownOwners.length > 0) {
+    state.lastFunction = "items:listByOwner";
+    const items = await ctx.fetchItemsByOwner(ctx.random.pick(state.knownOwners), limit);
+    learn(state, items);
+    return `List by owner: ${items.length} items`;
+  }
+  if (op === 3) {
+    const priority = ctx.random.int(1, 6);
+    state.lastFunction = "items:listByPriority";
+    const items = await ctx.fetchItemsByPriority(priority, limit);
+    learn(state, items);
+    return `List by priority ${priority}: ${items.length} items`;
+  }
+  if (op === 4) {
+    const status = ctx.random.next() < 0.5 ? ctx.random.pick(STATUSES) : undefined;
+    state.lastFunction = "items:getItemCount";
+    const count = await ctx.fetchItemCount(status);
+    return `Count${status ? ` "${status}"` : ""}: ${count}`;
+  }
+
+  const status = ctx.random.next() < 0.5 ? ctx.random.pick(STATUSES) : undefined;
+  state.lastFunction = "items:listItems";
+  const items = await ctx.fetchItems({ status, limit });
+  learn(state, items);
+  return `List${status ? ` "${status}"` : ""}: ${items.length} items`;
+}
+
+/**
+ * Close churned subscriptions whose hold time is up, plus the oldest ones
+ * beyond the configured maximum.
+ */
+function closeSubscriptions(state: ReaderState, keep: number): void {
+  const now = Date.now();
+  state.subscriptions = state.subscriptions.filter((sub, i) => {
+    const close = sub.closeAt <= now || i < state.subscriptions.length - keep;
+    if (close) sub.unsubscribe();
+    return !close;
+  });
+}
+
+/**
+ * Open a listItems subscription with random args and wait for its first
+ * result. The tracked context records the time to first result.
+ * Throws if no result arrives in time.
+ */
+async function churnOnce(ctx: ReaderContext, state: ReaderState): Promise<string> {
+  const { subscriptions, holdMs } = ctx.config;
+  closeSubscriptions(state, subscriptions - 1);
+
+  const status = ctx.random.next() < 0.5 ? ctx.random.pick(STATUSES) : undefined;
+  const limit = ctx.random.int(1, ctx.config.limit + 1);
+  state.lastFunction = "items:listItems";
+
+  let received: Item[] | undefined;
+  const unsubscribe = ctx.watchItems({ status, limit }, (items) => {
+    received = items;
+  });
+  // Kept by reference: concurrent open-loop calls push their own entries
+  const subscription = { unsubscribe, closeAt: Number.POSITIVE_INFINITY };
+  state.subscriptions.push(subscription);
+
+  const deadline = Date.now() + FIRST_RESULT_TIMEOUT_MS;
+  while (received === undefined && Date.now() < deadline && !ctx.shouldStop()) {
+    await ctx.sleep(5);
+  }
+  subscription.closeAt = Date.now() + holdMs;
+  if (received === undefined) {
+    if (ctx.shouldStop()) return "Subscription cancelled";
+    throw new Error(`No listItems result within ${FIRST_RESULT_TIMEOUT_MS}ms`);
+  }
+  learn(state, received);
+  return `Subscribed${status ? ` "${status}"` : ""} (limit ${limit}): ${received.length} items, ${state.subscriptions.length} open`;
+}
+
+/**
+ * Perform one read in the configured mode. Throws if a server read fails.
+ * @returns Description of the read, for periodic logging
+ */
+async function readOnce(ctx: ReaderContext, state: ReaderState): Promise<string> {
+  state.iterations++;
+  state.lastFunction = undefined;
+
+  switch (ctx.config.mode) {
+    case "cache":
+      return readCache(ctx);
+    case "churn":
+      return await churnOnce(ctx, state);
+    case "mixed":
+      return ctx.random.next() < 0.8 ? await queryOnce(ctx, state) : await churnOnce(ctx, state);
+    default:
+      return await queryOnce(ctx, state);
+  }
+}
+
 /**
  * Reader Minion
  *
- * Query-only workload that reads items by various criteria.
- * Tests subscription performance and query throughput.
- * Does NOT modify any data.
+ * Query-only workload. By default every read is a one-shot server query
+ * (listItems, listByPriority, listByOwner, getItem, getItemCount), so its
+ * latency is a real Convex round trip. Churn mode instead opens and closes
+ * listItems subscriptions with varying args; cache mode reads the local
+ * subscription cache only. Does NOT modify any data.
  */
-export const readerBehavior: MinionBehavior<ItemsContext> = {
+export const readerBehavior: MinionBehavior<ItemsContext, ReaderConfig> = {
   name: "Reader",
-  description: "Query-only workload - reads items by status and priority",
+  description: "Query-only workload - one-shot queries and subscription churn",
+  configSchema: readerConfigSchema,
 
   async init(ctx) {
-    ctx.log("Reader initialized - will read items without modifications");
+    const { config } = ctx;
+    // The context scopes listItems reads and counts to this worker's project
+    const scope = config.numProjects > 0 ? ` in project ${(ctx.workerId ?? 0) % config.numProjects}` : "";
+    ctx.log(`Reader initialized (${config.mode} mode) - will read items${scope} without modifications`);
 
-    // Wait for initial data to load
-    await ctx.sleep(500);
+    if (config.mode === "cache") {
+      // Wait for initial data to load
+      await ctx.sleep(500);
+    }
 
-    const itemCount = ctx.getItemCount();
-    ctx.log(`Found ${itemCount} items in cache`);
+    const itemCount = config.mode === "cache" ? ctx.getItemCount() : await ctx.fetchItemCount();
+    ctx.log(`Found ${itemCount} items`);
 
     if (itemCount === 0) {
       ctx.log("WARNING: No items found. Run the Seeder first!");
@@ -43,84 +250,48 @@ export const readerBehavior: MinionBehavior<ItemsContext> = {
   async run(ctx) {
     ctx.log("Starting read loop...");
 
-    let iterations = 0;
+    const state = getReaderState(ctx);
     const startTime = Date.now();
 
-    while (!ctx.shouldStop()) {
-      iterations++;
-
-      // Randomly pick a read operation
-      const operation = ctx.random.int(0, 5);
-
-      try {
-        switch (operation) {
-          case 0: {
-            // Read all items
-            const all = ctx.getItems();
-            if (iterations % 50 === 1) {
-              ctx.log(`Read all: ${all.length} items`);
-            }
-            break;
-          }
-
-          case 1: {
-            // Read by status
-            const status = ctx.random.pick(STATUSES);
-            const byStatus = ctx.getItemsByStatus(status);
-            if (iterations % 50 === 1) {
-              ctx.log(`Read by status "${status}": ${byStatus.length} items`);
-            }
-            break;
-          }
+    try {
+      while (!ctx.shouldStop()) {
+        const opStart = Date.now();
+        let success = true;
 
-          case 2: {
-            // Read by priority
-            const priority = ctx.random.int(1, 6);
-            const byPriority = ctx.getItemsByPriority(priority);
-            if (iterations % 50 === 1) {
-              ctx.log(`Read by priority ${priority}: ${byPriority.length} items`);
-            }
-            break;
-          }
-
-          case 3: {
-            // Get random item
-            const item = ctx.getRandomItem();
-            if (iterations % 50 === 1) {
-              ctx.log(`Random item: ${item ? item.title : "none"}`);
-            }
-            break;
+        try {
+          const description = await readOnce(ctx, state);
+          if (state.iterations % 50 === 1) {
+            ctx.log(description);
           }
+        } catch (err) {
+          success = false;
+          ctx.log(`ERROR: Read operation failed: ${err}`);
+        }
 
-          case 4: {
-            // Get item count
-            const count = ctx.getItemCount();
-            if (iterations % 50 === 1) {
-              ctx.log(`Item count: ${count}`);
-            }
-            break;
-          }
+        // Cache reads aren't Convex calls, so only server reads are reported
+        if (ctx.reportMetric && state.lastFunction) {
+          ctx.reportMetric(Date.now() - opStart, success, state.lastFunction);
         }
-      } catch (err) {
-        ctx.log(`ERROR: Read operation failed: ${err}`);
-      }
 
-      // Note: We don't call reportMetric() here because these are local cache reads,
-      // not actual Convex calls. The meaningful metric is the TTFR (time-to-first-response)
-      // on the subscription, which is automatically tracked.
+        // Log progress periodically
+        if (state.iterations % 100 === 0) {
+          const elapsed = Math.round((Date.now() - startTime) / 1000);
+          const rate = Math.round(state.iterations / Math.max(1, elapsed));
+          ctx.log(`Completed ${state.iterations} reads (${rate}/s)`);
+        }
 
-      // Log progress periodically
-      if (iterations % 100 === 0) {
-        const elapsed = Math.round((Date.now() - startTime) / 1000);
-        const rate = Math.round(iterations / Math.max(1, elapsed));
-        ctx.log(`Completed ${iterations} reads (${rate}/s)`);
+        // Small delay between reads
+        await ctx.sleep(ctx.random.int(20, 100));
       }
-
-      // Small delay between reads
-      await ctx.sleep(ctx.random.int(20, 100));
+    } finally {
+      closeSubscriptions(state, 0);
     }
 
     const totalTime = Math.round((Date.now() - startTime) / 1000);
-    ctx.log(`Reader complete: ${iterations} reads in ${totalTime}s`);
+    ctx.log(`Reader complete: ${state.iterations} reads in ${totalTime}s`);
+  },
+
+  async operation(ctx) {
+    await readOnce(ctx, getReaderState(ctx));
   },
 };
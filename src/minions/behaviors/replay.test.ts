@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { BehaviorContext, TraceEntry } from "../../../lib/minion-benchmark";
+import { SeededRandom } from "../../../lib/minion-benchmark";
+import type { ItemsContext } from "../types";
+import { replayBehavior, replayConfigSchema, type ReplayConfig } from "./replay";
+
+type Call = [op: string, ...args: unknown[]];
+
+function entry(offsetMs: number, op: string, args: unknown[], result?: unknown): TraceEntry {
+  return { op, args, offsetMs, workerId: 0, latencyMs: 5, success: true, result };
+}
+
+/**
+ * An items context over a deployment whose data differs from the
+ * recording's: other ids, and other items in query results.
+ */
+function replayContext(config: ReplayConfig, calls: Call[]): BehaviorContext<ItemsContext, ReplayConfig> {
+  const item = (id: string) => ({ id, title: id, status: "pending", priority: 3, tags: [], createdAt: 0, updatedAt: 0 });
+  let created = 0;
+  const record =
+    <T>(op: string, result: (...args: unknown[]) => T) =>
+    async (...args: unknown[]) => {
+      calls.push([op, ...args]);
+      return result(...args);
+    };
+  const ctx = {
+    config,
+    workerId: 0,
+    random: new SeededRandom(1),
+    log: () => {},
+    sleep: async () => {},
+    shouldStop: () => false,
+    createItem: record("createItem", () => `new-${++created}`),
+    createItems: record("createItems", (items) => (items as unknown[]).map(() => `new-${++created}`)),
+    updateItem: record("updateItem", () => undefined),
+    fetchItems: record("fetchItems", () => [item("new-other"), item("new-1")]),
+    fetchItemsPage: record("fetchItemsPage", () => ({ items: [item("new-other")], cursor: "new-cursor", isDone: false })),
+    getOrCreateUser: record("getOrCreateUser", () => "new-user"),
+  };
+  return ctx as unknown as BehaviorContext<ItemsContext, ReplayConfig>;
+}
+
+describe("replayBehavior", () => {
+  it("maps created ids and cursors, but not query results, onto a deployment with different data", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "replay-"));
+    try {
+      const file = join(dir, "trace.jsonl");
+      const trace = [
+        entry(0, "createItem", [{ title: "First" }], "rec-1"),
+        // rec-old existed before the recording; the replay deployment has other items
+        entry(10, "fetchItems", [{ limit: 2 }], { ids: ["rec-old", "rec-1"] }),
+        entry(20, "updateItem", ["rec-1", { status: "done" }]),
+        entry(30, "updateItem", ["rec-old", { status: "done" }]),
+        entry(40, "createItem", [{ title: "rec-old" }], "rec-2"),
+        entry(50, "fetchItemsPage", [{ cursor: null, numItems: 1 }], { ids: ["rec-old"], cursor: "rec-cursor", isDone: false }),
+        entry(60, "fetchItemsPage", [{ cursor: "rec-cursor", numItems: 1 }], { ids: [], cursor: "rec-end", isDone: true }),
+        entry(70, "getOrCreateUser", ["owner-0", "Owner 0"], "rec-user"),
+        entry(80, "createItems", [[{ title: "Owned", ownerId: "rec-user" }]], ["rec-3"]),
+        entry(90, "updateItem", ["rec-2", { priority: 1 }]),
+      ];
+      await writeFile(file, trace.map((e) => JSON.stringify(e)).join("\n"));
+
+      const calls: Call[] = [];
+      const ctx = replayContext(replayConfigSchema.parse({ file, speed: 0 }), calls);
+      await replayBehavior.init(ctx);
+      await replayBehavior.run(ctx);
+
+      assert.deepEqual(calls, [
+        ["createItem", { title: "First" }],
+        ["fetchItems", { limit: 2 }],
+        ["updateItem", "new-1", { status: "done" }],
+        // Not paired with the replayed query result at the same position
+        ["updateItem", "rec-old", { status: "done" }],
+        // A title equal to a recorded id is left alone
+        ["createItem", { title: "rec-old" }],
+        ["fetchItemsPage", { cursor: null, numItems: 1 }],
+        ["fetchItemsPage", { cursor: "new-cursor", numItems: 1 }],
+        ["getOrCreateUser", "owner-0", "Owner 0"],
+        ["createItems", [{ title: "Owned", ownerId: "new-user" }]],
+        ["updateItem", "new-2", { priority: 1 }],
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
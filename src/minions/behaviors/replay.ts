@@ -0,0 +1,282 @@
+import { z } from "zod";
+import {
+  loadTrace,
+  type MinionBehavior,
+  type TraceEntry,
+} from "../../../lib/minion-benchmark";
+import { TRACED_OPERATIONS, isTracedOperation, summarizeItemResult, type TracedOperation } from "../trace";
+import type { ItemsContext } from "../types";
+
+export const replayConfigSchema = z.object({
+  file: z
+    .string()
+    .min(1)
+    .describe("Trace to replay: a JSONL file path (CLI) or URL, e.g. from run-minion --trace"),
+  speed: z
+    .number()
+    .min(0)
+    .max(1000)
+    .default(1)
+    .describe("Pacing: 1 = original timing, 10 = ten times faster, 0 = as fast as possible"),
+  allWorkers: z
+    .boolean()
+    .default(false)
+    .describe("Replay every recorded worker's operations in each worker, instead of only the recorded worker with the same id"),
+  numProjects: z
+    .number()
+    .min(0)
+    .max(1000)
+    .default(0)
+    .describe("Number of projects to partition across; match the recorded run (0 = no partitioning)"),
+});
+
+export type ReplayConfig = z.infer<typeof replayConfigSchema>;
+
+// Longest single sleep while waiting for an entry's time, so stop requests are noticed
+const MAX_WAIT_SLICE_MS = 1000;
+
+/**
+ * What the workers of one replay run share: the trace, loaded once, and
+ * the recorded ids and cursors mapped to the ones the replay deployment
+ * returned (workers update items other workers created).
+ */
+interface ReplayRun {
+  trace: Promise<TraceEntry[]>;
+  ids: Map<string, string>;
+}
+
+/**
+ * Replay runs by their validated config, which the runner creates once per
+ * run and hands to every worker, so nothing carries over to the next run.
+ */
+const replayRuns = new WeakMap<ReplayConfig, ReplayRun>();
+
+/**
+ * Per-context replay state, shared by run() and operation().
+ */
+interface ReplayState {
+  /** This worker's entries, in recorded order */
+  entries: TraceEntry[];
+  /** Index of the next entry to replay */
+  next: number;
+  ids: Map<string, string>;
+  replayed: number;
+  errors: number;
+  /** Entries that failed in the recording too */
+  recordedErrors: number;
+  /** Replay start, for pacing */
+  startTime: number;
+  /** Whether running out of entries has been logged (open-loop) */
+  exhaustedLogged: boolean;
+}
+
+const replayStates = new WeakMap<ItemsContext, ReplayState>();
+
+function getReplayState(ctx: ItemsContext): ReplayState {
+  const state = replayStates.get(ctx);
+  if (!state) {
+    throw new Error("Replay used before init()");
+  }
+  return state;
+}
+
+/** Operations whose first argument is an item or user id */
+const ID_FIRST_ARGUMENT = new Set<TracedOperation>([
+  "updateItem",
+  "deleteItem",
+  "fetchItem",
+  "fetchItemsByOwner",
+  "fetchItemsByOwnerPage",
+]);
+
+/** Argument fields, at any depth, that hold an id or a cursor */
+const ID_FIELDS = new Set(["ownerId", "cursor"]);
+
+/** Operations that return one new id, or one per created item in order */
+const CREATE_OPERATIONS = new Set<TracedOperation>(["createItem", "createItems", "getOrCreateUser"]);
+
+/** Paginated reads, whose cursor continues the same scan in both runs */
+const PAGE_OPERATIONS = new Set<TracedOperation>(["fetchItemsPage", "fetchItemsByPriorityPage", "fetchItemsByOwnerPage"]);
+
+function mapId(value: unknown, ids: Map<string, string>): unknown {
+  return typeof value === "string" ? (ids.get(value) ?? value) : value;
+}
+
+function remapFields(value: unknown, ids: Map<string, string>): unknown {
+  if (Array.isArray(value)) return value.map((v) => remapFields(v, ids));
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, ID_FIELDS.has(k) ? mapId(v, ids) : remapFields(v, ids)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Replace recorded ids and cursors in an operation's arguments with the
+ * replay deployment's. Only arguments that hold ids are touched, so a title
+ * that happens to equal a recorded id stays as it is.
+ */
+function remap(op: TracedOperation, args: unknown[], ids: Map<string, string>): unknown[] {
+  return args.map((arg, i) => (i === 0 && ID_FIRST_ARGUMENT.has(op) ? mapId(arg, ids) : remapFields(arg, ids)));
+}
+
+function pairId(recorded: unknown, replayed: unknown, ids: Map<string, string>): void {
+  if (typeof recorded === "string" && typeof replayed === "string" && recorded !== replayed) {
+    ids.set(recorded, replayed);
+  }
+}
+
+/**
+ * Pair the ids a create returned in the recording with the ones it returned
+ * now, and a page's recorded cursor with the replayed one. Query results
+ * are not paired: when the replay deployment holds different data, the
+ * item at a position of a result is a different item.
+ */
+function pairIds(op: TracedOperation, recorded: unknown, replayed: unknown, ids: Map<string, string>): void {
+  if (CREATE_OPERATIONS.has(op)) {
+    if (Array.isArray(recorded) && Array.isArray(replayed)) {
+      recorded.forEach((r, i) => pairId(r, replayed[i], ids));
+    } else {
+      pairId(recorded, replayed, ids);
+    }
+  } else if (PAGE_OPERATIONS.has(op)) {
+    const cursorOf = (page: unknown) =>
+      typeof page === "object" && page !== null ? (page as { cursor?: unknown }).cursor : undefined;
+    pairId(cursorOf(recorded), cursorOf(replayed), ids);
+  }
+}
+
+/**
+ * Re-issue one recorded operation. Throws if it fails.
+ */
+async function replayEntry(ctx: ItemsContext, state: ReplayState, entry: TraceEntry): Promise<void> {
+  if (!isTracedOperation(entry.op)) {
+    throw new Error(`Unknown operation in trace: ${entry.op}`);
+  }
+  const method = ctx[entry.op] as (...args: unknown[]) => Promise<unknown>;
+  const result = await method.apply(ctx, remap(entry.op, entry.args, state.ids));
+  if (entry.result !== undefined) {
+    pairIds(entry.op, entry.result, summarizeItemResult(entry.op, result), state.ids);
+  }
+}
+
+/**
+ * Replay the next entry, reporting it like any other operation.
+ * Returns false once the trace is exhausted.
+ */
+async function replayNext(ctx: ItemsContext, state: ReplayState): Promise<boolean> {
+  const entry = state.entries[state.next];
+  if (!entry) return false;
+  state.next++;
+  state.replayed++;
+  if (!entry.success) state.recordedErrors++;
+
+  const opStart = Date.now();
+  let success = true;
+  try {
+    await replayEntry(ctx, state, entry);
+  } catch (err) {
+    success = false;
+    state.errors++;
+    // Failures the recording also had are expected
+    if (entry.success) {
+      ctx.log(`ERROR: ${entry.op} failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (ctx.reportMetric) {
+    const functionName = isTracedOperation(entry.op) ? TRACED_OPERATIONS[entry.op] : entry.op;
+    ctx.reportMetric(Date.now() - opStart, success, functionName);
+  }
+  return true;
+}
+
+/**
+ * Replay Minion
+ *
+ * Re-issues a trace recorded with `run-minion.ts --trace` (or
+ * traceItemsContext()) against the current deployment, at the recorded
+ * pacing or faster. Ids of items and users created during the recording,
+ * and page cursors, are mapped onto the ones this deployment returns as the
+ * replay goes, so a workload captured once can be replayed against new
+ * backend versions. Items that existed before the recording keep their ids. Run with the recorded
+ * worker count (and --worker-id) to replay each worker's operations in its
+ * own worker, or set allWorkers to replay the whole trace in each worker.
+ */
+export const replayBehavior: MinionBehavior<ItemsContext, ReplayConfig> = {
+  name: "Replay",
+  description: "Replays a recorded operation trace at original or accelerated pacing",
+  configSchema: replayConfigSchema,
+
+  async init(ctx) {
+    const { file, allWorkers } = ctx.config;
+    let run = replayRuns.get(ctx.config);
+    if (!run) {
+      run = { trace: loadTrace(file), ids: new Map() };
+      replayRuns.set(ctx.config, run);
+    }
+    const all = await run.trace;
+
+    const entries =
+      allWorkers || ctx.workerId === undefined
+        ? all
+        : all.filter((entry) => (entry.workerId ?? 0) === ctx.workerId);
+    replayStates.set(ctx, {
+      entries,
+      next: 0,
+      ids: run.ids,
+      replayed: 0,
+      errors: 0,
+      recordedErrors: 0,
+      startTime: Date.now(),
+      exhaustedLogged: false,
+    });
+
+    if (entries.length === 0) {
+      ctx.log(`WARNING: No operations to replay for worker ${ctx.workerId} in ${file}`);
+    } else {
+      const span = entries[entries.length - 1].offsetMs - entries[0].offsetMs;
+      ctx.log(`Replay initialized - ${entries.length} operations over ${Math.round(span / 1000)}s recorded`);
+    }
+  },
+
+  async run(ctx) {
+    const { speed } = ctx.config;
+    ctx.log(`Starting replay${speed === 0 ? " (unpaced)" : speed !== 1 ? ` at ${speed}x` : ""}...`);
+
+    const state = getReplayState(ctx);
+    state.startTime = Date.now();
+
+    while (!ctx.shouldStop() && state.next < state.entries.length) {
+      // Wait for the entry's time, measured from the start of the recording
+      if (speed > 0) {
+        const due = state.startTime + state.entries[state.next].offsetMs / speed;
+        const wait = due - Date.now();
+        if (wait > 0) {
+          await ctx.sleep(Math.min(wait, MAX_WAIT_SLICE_MS));
+          continue;
+        }
+      }
+
+      await replayNext(ctx, state);
+
+      // Log progress periodically
+      if (state.replayed % 100 === 0) {
+        ctx.log(`Progress: ${state.replayed}/${state.entries.length} operations, ${state.errors} errors`);
+      }
+    }
+
+    const totalTime = Math.round((Date.now() - state.startTime) / 1000);
+    ctx.log(`Replay complete: ${state.replayed}/${state.entries.length} operations, ${state.errors} errors (${state.recordedErrors} failed in the recording) in ${totalTime}s`);
+  },
+
+  // Open-loop: replay entries in order at the arrival rate, ignoring recorded timing
+  async operation(ctx) {
+    const state = getReplayState(ctx);
+    if (!(await replayNext(ctx, state)) && !state.exhaustedLogged) {
+      state.exhaustedLogged = true;
+      ctx.log("Trace exhausted; no more operations to replay");
+    }
+  },
+};
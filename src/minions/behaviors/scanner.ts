@@ -0,0 +1,181 @@
+import { z } from "zod";
+import type { BehaviorContext, MinionBehavior } from "../../../lib/minion-benchmark";
+import type { ItemsContext } from "../types";
+
+export const scannerConfigSchema = z.object({
+  pageSize: z
+    .number()
+    .min(1)
+    .max(1000)
+    .default(100)
+    .describe("Items per page"),
+  concurrency: z
+    .number()
+    .min(1)
+    .max(20)
+    .default(1)
+    .describe("Scans each worker runs in parallel, each with its own cursor"),
+  scans: z
+    .number()
+    .min(0)
+    .max(10000)
+    .default(0)
+    .describe("Full-table scans per worker before stopping (0 = until stopped)"),
+  pauseMs: z
+    .number()
+    .min(0)
+    .max(60000)
+    .default(0)
+    .describe("Pause between pages of one scan (ms)"),
+});
+
+export type ScannerConfig = z.infer<typeof scannerConfigSchema>;
+
+type ScannerContext = BehaviorContext<ItemsContext, ScannerConfig>;
+
+/**
+ * Position of one scan through the table.
+ */
+interface ScanCursor {
+  /** Cursor for the next page; null before the first page */
+  cursor: string | null;
+  pages: number;
+  items: number;
+  startedAt: number;
+}
+
+/**
+ * Per-context scanner state, shared by run() and operation().
+ */
+interface ScannerState {
+  /** Cursor used by operation(); run() gives each parallel scan its own */
+  cursor: ScanCursor;
+  pages: number;
+  /** Scans begun by run(), so parallel scans stop at the configured count */
+  scansStarted: number;
+  scansCompleted: number;
+}
+
+const scannerStates = new WeakMap<ItemsContext, ScannerState>();
+
+function newCursor(): ScanCursor {
+  return { cursor: null, pages: 0, items: 0, startedAt: Date.now() };
+}
+
+function getScannerState(ctx: ItemsContext): ScannerState {
+  let state = scannerStates.get(ctx);
+  if (!state) {
+    state = { cursor: newCursor(), pages: 0, scansStarted: 0, scansCompleted: 0 };
+    scannerStates.set(ctx, state);
+  }
+  return state;
+}
+
+/**
+ * Claim the next scan for one of run()'s parallel loops.
+ * @returns False once the configured number of scans has been started
+ */
+function startScan(ctx: ScannerContext, state: ScannerState): boolean {
+  if (ctx.config.scans > 0 && state.scansStarted >= ctx.config.scans) return false;
+  state.scansStarted++;
+  return true;
+}
+
+/**
+ * Read the next page of a scan and start over once the table is exhausted.
+ * Throws if the query fails; the cursor is left in place to retry.
+ * @returns True when the page completed the scan
+ */
+async function scanPage(ctx: ScannerContext, state: ScannerState, scan: ScanCursor): Promise<boolean> {
+  const page = await ctx.fetchItemsPage({ cursor: scan.cursor, numItems: ctx.config.pageSize });
+  state.pages++;
+  scan.pages++;
+  scan.items += page.items.length;
+  scan.cursor = page.cursor;
+
+  if (page.isDone) {
+    const elapsed = Date.now() - scan.startedAt;
+    state.scansCompleted++;
+    ctx.log(`Scan complete: ${scan.items} items in ${scan.pages} pages (${elapsed}ms)`);
+    ctx.log.metric?.("scanDurationMs", elapsed);
+    ctx.log.metric?.("scanItems", scan.items);
+    Object.assign(scan, newCursor());
+  }
+  return page.isDone;
+}
+
+/**
+ * Scanner Minion
+ *
+ * Walks the whole items table page by page with listItemsPage, optionally
+ * with several scans in parallel. Each page is one paginated query, so the
+ * per-function metrics for items:listItemsPage are per-page latencies.
+ * Does NOT modify any data.
+ */
+export const scannerBehavior: MinionBehavior<ItemsContext, ScannerConfig> = {
+  name: "Scanner",
+  description: "Paginated full-table scans - configurable page size and concurrency",
+  configSchema: scannerConfigSchema,
+
+  async init(ctx) {
+    const { config } = ctx;
+    ctx.log(
+      `Scanner initialized - ${config.concurrency} parallel scan(s), ${config.pageSize} items per page${config.scans > 0 ? `, ${config.scans} scan(s)` : ""}`
+    );
+  },
+
+  async run(ctx) {
+    ctx.log("Starting scan loop...");
+
+    const state = getScannerState(ctx);
+    const startTime = Date.now();
+
+    const scanLoop = async () => {
+      const scan = newCursor();
+      let inProgress = false;
+      while (!ctx.shouldStop()) {
+        if (!inProgress) {
+          if (!startScan(ctx, state)) break;
+          inProgress = true;
+          scan.startedAt = Date.now();
+        }
+        const opStart = Date.now();
+        let success = true;
+
+        try {
+          inProgress = !(await scanPage(ctx, state, scan));
+        } catch (err) {
+          success = false;
+          ctx.log(`ERROR: Page read failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+
+        if (ctx.reportMetric) {
+          ctx.reportMetric(Date.now() - opStart, success, "items:listItemsPage");
+        }
+
+        // Log progress periodically
+        if (success && state.pages % 100 === 0) {
+          const elapsed = Math.round((Date.now() - startTime) / 1000);
+          const rate = Math.round(state.pages / Math.max(1, elapsed));
+          ctx.log(`Progress: ${state.pages} pages, ${state.scansCompleted} scans (${rate} pages/s)`);
+        }
+
+        // Back off after a failed page instead of retrying it immediately
+        const pause = success ? ctx.config.pauseMs : Math.max(ctx.config.pauseMs, 500);
+        if (pause > 0) {
+          await ctx.sleep(pause);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: ctx.config.concurrency }, scanLoop));
+
+    const totalTime = Math.round((Date.now() - startTime) / 1000);
+    ctx.log(`Scanner complete: ${state.scansCompleted} scans, ${state.pages} pages in ${totalTime}s`);
+  },
+
+  async operation(ctx) {
+    const state = getScannerState(ctx);
+    await scanPage(ctx, state, state.cursor);
+  },
+};
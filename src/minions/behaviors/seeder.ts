@@ -25,6 +25,12 @@ export const seederConfigSchema = z.object({
     .max(1000)
     .default(5)
     .describe("Number of projects to distribute items across (0 = no partitioning)"),
+  owners: z
+    .number()
+    .min(0)
+    .max(100)
+    .default(5)
+    .describe("Number of users to assign as item owners, for listByOwner reads (0 = unowned)"),
 });
 
 export type SeederConfig = z.infer<typeof seederConfigSchema>;
@@ -75,17 +81,16 @@ export const seederBehavior: MinionBehavior<ItemsContext, SeederConfig> = {
   configSchema: seederConfigSchema,
 
   async init(ctx) {
-    // Get config from context (merged in by worker) with defaults
-    const config = seederConfigSchema.parse({
-      count: (ctx as unknown as Record<string, unknown>).count,
-      batchSize: (ctx as unknown as Record<string, unknown>).batchSize,
-      numProjects: (ctx as unknown as Record<string, unknown>).numProjects,
-    });
-
-    const { count, batchSize, numProjects } = config;
+    const { count, batchSize, numProjects, owners } = ctx.config;
 
     ctx.log(`Starting seeder - creating ${count} items in batches of ${batchSize}${numProjects > 0 ? ` across ${numProjects} projects` : ""}...`);
 
+    // The same owners on every run, so repeated seeding doesn't multiply users
+    const ownerIds: string[] = [];
+    for (let i = 1; i <= owners; i++) {
+      ownerIds.push(await ctx.getOrCreateUser(`seed-owner-${i}`, `Owner ${i}`));
+    }
+
     const startTime = Date.now();
     let created = 0;
 
@@ -115,6 +120,7 @@ export const seederBehavior: MinionBehavior<ItemsContext, SeederConfig> = {
           priority,
           tags,
           projectId: numProjects > 0 ? itemIndex % numProjects : undefined,
+          ownerId: ownerIds.length > 0 ? ctx.random.pick(ownerIds) : undefined,
         });
       }
 
@@ -123,12 +129,12 @@ export const seederBehavior: MinionBehavior<ItemsContext, SeederConfig> = {
       try {
         await ctx.createItems(batch);
         if (ctx.reportMetric) {
-          ctx.reportMetric(Date.now() - batchStart, true);
+          ctx.reportMetric(Date.now() - batchStart, true, "items:createItems");
         }
       } catch (err) {
         ctx.log(`ERROR: Failed to create batch: ${err}`);
         if (ctx.reportMetric) {
-          ctx.reportMetric(Date.now() - batchStart, false);
+          ctx.reportMetric(Date.now() - batchStart, false, "items:createItems");
         }
       }
 
@@ -29,6 +29,89 @@ const TITLES = [
 const TAGS = ["urgent", "backend", "frontend", "bug", "feature", "docs"];
 const STATUSES = ["pending", "active", "completed"];
 
+/**
+ * Per-context writer state, shared by run() and operation().
+ */
+interface WriterState {
+  /** Items we've created locally so we can update them without listItems */
+  knownItems: { id: string; title: string }[];
+  iterations: number;
+  creates: number;
+  updates: number;
+  /** Convex function called by the latest writeOnce(), for per-function metrics */
+  lastFunction?: string;
+}
+
+const writerStates = new WeakMap<ItemsContext, WriterState>();
+
+function getWriterState(ctx: ItemsContext): WriterState {
+  let state = writerStates.get(ctx);
+  if (!state) {
+    state = { knownItems: [], iterations: 0, creates: 0, updates: 0 };
+    writerStates.set(ctx, state);
+  }
+  return state;
+}
+
+/**
+ * Perform one create or update. Throws if the mutation fails.
+ */
+async function writeOnce(ctx: ItemsContext, state: WriterState): Promise<void> {
+  const { knownItems } = state;
+  state.iterations++;
+
+  // Decide: create (30%) or update (70%), but always create if we have nothing to update
+  const shouldCreate = ctx.random.next() < 0.3 || knownItems.length === 0;
+
+  if (shouldCreate) {
+    // Create new item
+    const title = `${ctx.random.pick(TITLES)} #${ctx.random.int(0, 10000)}`;
+    const status = ctx.random.pick(STATUSES);
+    const priority = ctx.random.int(1, 6);
+    const numTags = ctx.random.int(0, 3);
+    const tags = ctx.random.shuffle([...TAGS]).slice(0, numTags);
+
+    state.lastFunction = "items:createItem";
+    const id = await ctx.createItem({
+      title,
+      status,
+      priority,
+      tags,
+    });
+
+    knownItems.push({ id: id as string, title });
+
+    state.creates++;
+    if (state.iterations % 50 === 1) {
+      ctx.log(`Created: ${title}`);
+    }
+  } else {
+    // Update a random item we've previously created
+    const item = knownItems[Math.floor(ctx.random.next() * knownItems.length)];
+    // Randomly update some fields
+    const updateData: Record<string, unknown> = {};
+
+    if (ctx.random.next() < 0.5) {
+      updateData.status = ctx.random.pick(STATUSES);
+    }
+    if (ctx.random.next() < 0.3) {
+      updateData.priority = ctx.random.int(1, 6);
+    }
+    if (ctx.random.next() < 0.2) {
+      const numTags = ctx.random.int(0, 3);
+      updateData.tags = ctx.random.shuffle([...TAGS]).slice(0, numTags);
+    }
+
+    state.lastFunction = "items:updateItem";
+    await ctx.updateItem(item.id, updateData as any);
+
+    state.updates++;
+    if (state.iterations % 50 === 1) {
+      ctx.log(`Updated: ${item.title}`);
+    }
+  }
+}
+
 /**
  * Writer Minion
  *
@@ -36,9 +119,10 @@ const STATUSES = ["pending", "active", "completed"];
  * ~30% creates, ~70% updates to test write throughput.
  * Tracks created items locally — does NOT subscribe to listItems.
  */
-export const writerBehavior: MinionBehavior<ItemsContext> = {
+export const writerBehavior: MinionBehavior<ItemsContext, WriterConfig> = {
   name: "Writer",
   description: "Write-heavy workload - creates and updates items (30/70 split)",
+  configSchema: writerConfigSchema,
 
   async init(ctx) {
     ctx.log("Writer initialized (no listItems subscription)");
@@ -47,83 +131,29 @@ export const writerBehavior: MinionBehavior<ItemsContext> = {
   async run(ctx) {
     ctx.log("Starting write loop...");
 
-    // Track items we've created locally so we can update them without listItems
-    const knownItems: { id: string; title: string }[] = [];
-
-    let iterations = 0;
-    let creates = 0;
-    let updates = 0;
+    const state = getWriterState(ctx);
     const startTime = Date.now();
 
     while (!ctx.shouldStop()) {
-      iterations++;
-
       const opStart = Date.now();
       let success = true;
 
       try {
-        // Decide: create (30%) or update (70%), but always create if we have nothing to update
-        const shouldCreate = ctx.random.next() < 0.3 || knownItems.length === 0;
-
-        if (shouldCreate) {
-          // Create new item
-          const title = `${ctx.random.pick(TITLES)} #${Date.now() % 10000}`;
-          const status = ctx.random.pick(STATUSES);
-          const priority = ctx.random.int(1, 6);
-          const numTags = ctx.random.int(0, 3);
-          const tags = ctx.random.shuffle([...TAGS]).slice(0, numTags);
-
-          const id = await ctx.createItem({
-            title,
-            status,
-            priority,
-            tags,
-          });
-
-          knownItems.push({ id: id as string, title });
-
-          creates++;
-          if (iterations % 50 === 1) {
-            ctx.log(`Created: ${title}`);
-          }
-        } else {
-          // Update a random item we've previously created
-          const item = knownItems[Math.floor(ctx.random.next() * knownItems.length)];
-          // Randomly update some fields
-          const updateData: Record<string, unknown> = {};
-
-          if (ctx.random.next() < 0.5) {
-            updateData.status = ctx.random.pick(STATUSES);
-          }
-          if (ctx.random.next() < 0.3) {
-            updateData.priority = ctx.random.int(1, 6);
-          }
-          if (ctx.random.next() < 0.2) {
-            const numTags = ctx.random.int(0, 3);
-            updateData.tags = ctx.random.shuffle([...TAGS]).slice(0, numTags);
-          }
-
-          await ctx.updateItem(item.id, updateData as any);
-
-          updates++;
-          if (iterations % 50 === 1) {
-            ctx.log(`Updated: ${item.title}`);
-          }
-        }
+        await writeOnce(ctx, state);
       } catch (err) {
         success = false;
         ctx.log(`ERROR: Write operation failed: ${err}`);
       }
 
       if (ctx.reportMetric) {
-        ctx.reportMetric(Date.now() - opStart, success);
+        ctx.reportMetric(Date.now() - opStart, success, state.lastFunction);
       }
 
       // Log progress periodically
-      if (iterations % 100 === 0) {
+      if (state.iterations % 100 === 0) {
         const elapsed = Math.round((Date.now() - startTime) / 1000);
-        const rate = Math.round(iterations / Math.max(1, elapsed));
-        ctx.log(`Progress: ${creates} creates, ${updates} updates, ${knownItems.length} tracked (${rate} ops/s)`);
+        const rate = Math.round(state.iterations / Math.max(1, elapsed));
+        ctx.log(`Progress: ${state.creates} creates, ${state.updates} updates, ${state.knownItems.length} tracked (${rate} ops/s)`);
       }
 
       // Small delay between writes
@@ -131,6 +161,10 @@ export const writerBehavior: MinionBehavior<ItemsContext> = {
     }
 
     const totalTime = Math.round((Date.now() - startTime) / 1000);
-    ctx.log(`Writer complete: ${creates} creates, ${updates} updates in ${totalTime}s`);
+    ctx.log(`Writer complete: ${state.creates} creates, ${state.updates} updates in ${totalTime}s`);
+  },
+
+  async operation(ctx) {
+    await writeOnce(ctx, getWriterState(ctx));
   },
 };
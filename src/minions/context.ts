@@ -1,162 +1,273 @@
 /**
- * Items Context Factory
- * Creates the ItemsContext for headless (CLI/EC2) execution.
+ * Items Context Builder
+ *
+ * Builds the ItemsContext on top of any ItemsTransport, so behaviors see the
+ * same context in the browser (ConvexReactClient), on headless workers
+ * (ConvexClient) and over plain HTTP (ConvexHttpClient): project
+ * partitioning, latency tracking and the items cache all work the same way
+ * everywhere.
  */
 
-import { ConvexClient } from "convex/browser";
+import {
+  PropagationTracker,
+  createStamp,
+  type BaseMinionContext,
+  type ISeededRandom,
+  type LatencySink,
+} from "../../lib/minion-benchmark";
 import { api } from "../../convex/_generated/api";
-import type { Id } from "../../convex/_generated/dataModel";
-import type { ItemsContext, Item } from "./types";
-
-export function createContext(client: ConvexClient): Partial<ItemsContext> & {
-  _configure?: (config: Record<string, unknown>) => void;
-  setup?: (visibleId: string, workerId: number) => Promise<void>;
-} {
-  // State managed by subscriptions
-  let cachedItems: Item[] = [];
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import type { PaginationResult } from "convex/server";
+import type { ItemsTransport } from "./transport";
+import type { ItemsContext, Item, ItemsPage } from "./types";
 
-  // Project partitioning state
-  let assignedProjectId: number | undefined;
-  let numProjects = 0;
-  let currentUnsubscribe: (() => void) | undefined;
-
-  let subscribed = false;
-
-  // Subscribe to items, optionally scoped to a projectId
-  const subscribeToItems = (projectId?: number) => {
-    // Unsubscribe from previous subscription if any
-    if (currentUnsubscribe) {
-      currentUnsubscribe();
-    }
-
-    subscribed = true;
-    const args: { limit: number; projectId?: number } = { limit: 1000 };
-    if (projectId !== undefined) {
-      args.projectId = projectId;
-    }
-
-    currentUnsubscribe = client.onUpdate(api.items.listItems, args, (items) => {
-      if (!items) {
-        cachedItems = [];
-        return;
-      }
-      cachedItems = items.map((item) => ({
-        id: item._id,
-        title: item.title,
-        description: item.description,
-        status: item.status,
-        priority: item.priority,
-        ownerId: item.ownerId,
-        tags: item.tags,
-        projectId: item.projectId,
-        createdAt: item.createdAt,
-        updatedAt: item.updatedAt,
-      }));
-    });
+// Items kept in the subscription cache read by getItems() and friends
+const CACHE_LIMIT = 1000;
+
+function toItem(doc: Doc<"items">): Item {
+  return {
+    id: doc._id,
+    title: doc.title,
+    description: doc.description,
+    status: doc.status,
+    priority: doc.priority,
+    ownerId: doc.ownerId,
+    tags: doc.tags,
+    projectId: doc.projectId,
+    createdAt: doc.createdAt,
+    updatedAt: doc.updatedAt,
   };
+}
+
+function toPage(result: PaginationResult<Doc<"items">>): ItemsPage {
+  return { items: result.page.map(toItem), cursor: result.continueCursor, isDone: result.isDone };
+}
+
+export interface ItemsContextOptions {
+  random: ISeededRandom;
+  shouldStop: () => boolean;
+  log: BaseMinionContext["log"];
+  /** Worker index; also picks the worker's project when partitioning */
+  workerId?: number;
+  /**
+   * The behavior's validated config. A positive numProjects partitions
+   * workers across projects: worker n writes to and reads from project
+   * n % numProjects
+   */
+  config?: Record<string, unknown>;
+  /**
+   * When given, stamped writes reaching the items cache subscription are
+   * recorded into it as propagation latency
+   */
+  propagationSink?: LatencySink;
+}
+
+/**
+ * An ItemsContext plus the means to release what it opened.
+ */
+export type ItemsContextHandle = ItemsContext & {
+  /** Close the items cache subscription and any open watchItems subscriptions */
+  close(): void;
+};
 
-  // Lazily subscribe on first read access
-  const ensureSubscribed = () => {
-    if (!subscribed) {
-      subscribeToItems(assignedProjectId);
-    }
+/**
+ * Build an ItemsContext on a transport. The items cache subscription starts
+ * right away, so give it a moment to deliver before relying on cache reads.
+ */
+export function createItemsContext(
+  transport: ItemsTransport,
+  options: ItemsContextOptions
+): ItemsContextHandle {
+  const config = options.config ?? {};
+  const numProjects = typeof config.numProjects === "number" ? config.numProjects : 0;
+  const projectId = numProjects > 0 ? (options.workerId ?? 0) % numProjects : undefined;
+  if (projectId !== undefined) {
+    options.log(`Assigned to project ${projectId} (of ${numProjects})`);
+  }
+
+  // Cache picks use their own stream so they don't shift the behavior's choices
+  const cacheRandom = options.random.fork("items-cache");
+  const subscriptions = new Set<() => void>();
+
+  const subscribe = (
+    args: { status?: string; projectId?: number; limit?: number },
+    onItems: (items: Doc<"items">[]) => void
+  ) => {
+    const unsubscribe = transport.subscribe(api.items.listItems, args, onItems);
+    subscriptions.add(unsubscribe);
+    return () => {
+      subscriptions.delete(unsubscribe);
+      unsubscribe();
+    };
   };
 
-  const context: Partial<ItemsContext> & {
-    _configure?: (config: Record<string, unknown>) => void;
-    setup?: (visibleId: string, workerId: number) => Promise<void>;
-  } = {
-    // ============== Configuration ==============
+  // Items cache, scoped to the worker's project when partitioning
+  let cachedItems: Item[] = [];
+  const propagation = options.propagationSink
+    ? new PropagationTracker(options.propagationSink, {
+        functionName: "items:listItems",
+        workerId: options.workerId,
+      })
+    : undefined;
+  subscribe({ limit: CACHE_LIMIT, projectId }, (items) => {
+    propagation?.observe(items.map((item) => item.stamp));
+    cachedItems = items.map(toItem);
+  });
 
-    _configure(config: Record<string, unknown>) {
-      if (typeof config.numProjects === 'number') {
-        numProjects = config.numProjects;
-      }
-    },
+  return {
+    random: options.random,
+    sleep: (ms) => new Promise((r) => setTimeout(r, ms)),
+    shouldStop: options.shouldStop,
+    log: options.log,
+    workerId: options.workerId,
 
-    async setup(_visibleId: string, workerId: number) {
-      if (numProjects > 0) {
-        assignedProjectId = workerId % numProjects;
-        console.log(`[Context] Worker ${workerId} assigned to project ${assignedProjectId} (of ${numProjects})`);
-        // Re-subscribe scoped to this worker's project
-        subscribeToItems(assignedProjectId);
+    close() {
+      for (const unsubscribe of subscriptions) {
+        unsubscribe();
       }
+      subscriptions.clear();
     },
 
     // ============== Item Operations ==============
 
     createItem: async (data) => {
-      const result = await client.mutation(api.items.createItem, {
+      return await transport.mutation(api.items.createItem, {
         title: data.title,
         description: data.description,
         status: data.status,
         priority: data.priority,
         tags: data.tags,
-        projectId: data.projectId ?? assignedProjectId,
+        projectId: data.projectId ?? projectId,
+        ownerId: data.ownerId as Id<"users"> | undefined,
+        stamp: createStamp(),
       });
-      return result;
     },
 
     createItems: async (items) => {
-      const result = await client.mutation(api.items.createItems, {
+      return await transport.mutation(api.items.createItems, {
         items: items.map((item) => ({
           title: item.title,
           description: item.description,
           status: item.status,
           priority: item.priority,
           tags: item.tags,
-          projectId: item.projectId ?? assignedProjectId,
+          projectId: item.projectId ?? projectId,
+          ownerId: item.ownerId as Id<"users"> | undefined,
+          stamp: createStamp(),
         })),
       });
-      return result;
     },
 
     updateItem: async (id, data) => {
-      await client.mutation(api.items.updateItem, {
+      await transport.mutation(api.items.updateItem, {
         id: id as Id<"items">,
         title: data.title,
         description: data.description,
         status: data.status,
         priority: data.priority,
         tags: data.tags,
+        stamp: createStamp(),
       });
     },
 
     deleteItem: async (id) => {
-      await client.mutation(api.items.deleteItem, {
+      await transport.mutation(api.items.deleteItem, {
         id: id as Id<"items">,
       });
     },
 
     // ============== Queries ==============
 
-    getItems: () => {
-      ensureSubscribed();
-      return cachedItems;
+    getItems: () => cachedItems,
+
+    getItemsByStatus: (status) => cachedItems.filter((item) => item.status === status),
+
+    getItemsByPriority: (priority) => cachedItems.filter((item) => item.priority === priority),
+
+    getRandomItem: () => (cachedItems.length > 0 ? cacheRandom.pick(cachedItems) : null),
+
+    getItemCount: () => cachedItems.length,
+
+    // ============== Server Queries ==============
+
+    fetchItems: async (args = {}) => {
+      const items = await transport.query(api.items.listItems, {
+        ...args,
+        projectId: args.projectId ?? projectId,
+      });
+      return items.map(toItem);
     },
 
-    getItemsByStatus: (status) => {
-      ensureSubscribed();
-      return cachedItems.filter((item) => item.status === status);
+    fetchItemsByPriority: async (priority, limit) => {
+      const items = await transport.query(api.items.listByPriority, { priority, limit });
+      return items.map(toItem);
     },
 
-    getItemsByPriority: (priority) => {
-      ensureSubscribed();
-      return cachedItems.filter((item) => item.priority === priority);
+    fetchItemsByOwner: async (ownerId, limit) => {
+      const items = await transport.query(api.items.listByOwner, {
+        ownerId: ownerId as Id<"users">,
+        limit,
+      });
+      return items.map(toItem);
     },
 
-    getRandomItem: () => {
-      ensureSubscribed();
-      if (cachedItems.length === 0) return null;
-      const randomIndex = Math.floor(Math.random() * cachedItems.length);
-      return cachedItems[randomIndex];
+    fetchItem: async (id) => {
+      const item = await transport.query(api.items.getItem, { id: id as Id<"items"> });
+      return item ? toItem(item) : null;
     },
 
-    getItemCount: () => {
-      ensureSubscribed();
-      return cachedItems.length;
+    fetchItemCount: async (status) => {
+      // getItemCount counts by status or by project, not both
+      return await transport.query(
+        api.items.getItemCount,
+        status ? { status } : { projectId }
+      );
+    },
+
+    // ============== Paginated Queries ==============
+
+    fetchItemsPage: async (page, filter = {}) => {
+      const result = await transport.query(api.items.listItemsPage, {
+        paginationOpts: page,
+        ...filter,
+        projectId: filter.projectId ?? projectId,
+      });
+      return toPage(result);
+    },
+
+    fetchItemsByPriorityPage: async (priority, page) => {
+      return toPage(
+        await transport.query(api.items.listByPriorityPage, { paginationOpts: page, priority })
+      );
     },
-  };
 
-  return context;
+    fetchItemsByOwnerPage: async (ownerId, page) => {
+      return toPage(
+        await transport.query(api.items.listByOwnerPage, {
+          paginationOpts: page,
+          ownerId: ownerId as Id<"users">,
+        })
+      );
+    },
+
+    // ============== Users ==============
+
+    getOrCreateUser: async (visibleId, name) => {
+      return await transport.mutation(api.users.getOrCreateUser, { visibleId, name });
+    },
+
+    // ============== Counters ==============
+
+    bumpCounter: async (key) => {
+      return await transport.mutation(api.counters.bumpCounter, { key });
+    },
+
+    // ============== Subscriptions ==============
+
+    watchItems: (args, onItems) => {
+      return subscribe({ ...args, projectId: args.projectId ?? projectId }, (items) =>
+        onItems(items.map(toItem))
+      );
+    },
+  };
 }
@@ -4,21 +4,50 @@ import { seederBehavior } from "./behaviors/seeder";
 import { readerBehavior } from "./behaviors/reader";
 import { writerBehavior } from "./behaviors/writer";
 import { mixedBehavior } from "./behaviors/mixed";
+import { scannerBehavior } from "./behaviors/scanner";
+import { hotspotBehavior } from "./behaviors/hotspot";
+import { replayBehavior } from "./behaviors/replay";
 
-// Context factory for headless execution
-export { createContext } from "./context";
+// Context builder and the transports it runs on
+export {
+  createItemsContext,
+  type ItemsContextOptions,
+  type ItemsContextHandle,
+} from "./context";
+export {
+  convexClientTransport,
+  reactClientTransport,
+  httpClientTransport,
+  type ItemsTransport,
+  type TransportOptions,
+  type HttpTransportOptions,
+} from "./transport";
+
+// Operation traces, recorded by the CLI's --trace and replayed by the replay behavior
+export {
+  traceItemsContext,
+  summarizeItemResult,
+  TRACED_OPERATIONS,
+  type TracedOperation,
+} from "./trace";
 
 export const behaviors: Record<string, MinionBehavior<ItemsContext>> = {
   seeder: seederBehavior,
   reader: readerBehavior,
   writer: writerBehavior,
   mixed: mixedBehavior,
+  scanner: scannerBehavior,
+  hotspot: hotspotBehavior,
+  replay: replayBehavior,
 };
 
-export type { ItemsContext, Item } from "./types";
+export type { ItemsContext, Item, ItemsPage, PageRequest } from "./types";
 export {
   seederBehavior,
   readerBehavior,
   writerBehavior,
   mixedBehavior,
+  scannerBehavior,
+  hotspotBehavior,
+  replayBehavior,
 };
@@ -10,6 +10,9 @@ import { extractBehaviorConfigInfo } from "../../lib/minion-benchmark";
 import { seederConfigSchema } from "./behaviors/seeder";
 import { readerConfigSchema } from "./behaviors/reader";
 import { writerConfigSchema } from "./behaviors/writer";
+import { scannerConfigSchema } from "./behaviors/scanner";
+import { hotspotConfigSchema } from "./behaviors/hotspot";
+import { replayConfigSchema } from "./behaviors/replay";
 
 export const manifest: BenchmarkAppManifest = {
   key: "items",
@@ -30,7 +33,7 @@ export const manifest: BenchmarkAppManifest = {
     {
       key: "reader",
       name: "Reader",
-      description: "Query-only workload - reads items by status and priority",
+      description: "Query-only workload - one-shot queries and subscription churn",
       category: "reader",
       configSchema: extractBehaviorConfigInfo(readerConfigSchema),
     },
@@ -40,6 +43,7 @@ export const manifest: BenchmarkAppManifest = {
       description: "Write-heavy workload - creates and updates items",
       category: "writer",
       configSchema: extractBehaviorConfigInfo(writerConfigSchema),
+      slos: ["items:updateItem p99 < 250ms", "error rate < 0.5%"],
     },
     {
       key: "mixed",
@@ -47,6 +51,27 @@ export const manifest: BenchmarkAppManifest = {
       description: "70% reads, 30% writes - realistic workload simulation",
       category: "mixed",
     },
+    {
+      key: "scanner",
+      name: "Scanner",
+      description: "Paginated full-table scans - configurable page size and concurrency",
+      category: "reader",
+      configSchema: extractBehaviorConfigInfo(scannerConfigSchema),
+    },
+    {
+      key: "hotspot",
+      name: "Hotspot",
+      description: "Write contention - many workers update a few shared keys (Zipf-distributed)",
+      category: "writer",
+      configSchema: extractBehaviorConfigInfo(hotspotConfigSchema),
+    },
+    {
+      key: "replay",
+      name: "Replay",
+      description: "Replays a recorded operation trace at original or accelerated pacing",
+      category: "mixed",
+      configSchema: extractBehaviorConfigInfo(replayConfigSchema),
+    },
   ],
 };
 
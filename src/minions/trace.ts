@@ -0,0 +1,80 @@
+/**
+ * Items Operation Traces
+ *
+ * Which ItemsContext operations are recorded into traces, and how their
+ * results are kept: item lists and pages are reduced to their ids (and
+ * cursor), so a trace stays small but still lets a replay map recorded ids
+ * onto the items the new deployment returns.
+ *
+ * Only operations that reach the deployment are recorded; cache reads such
+ * as getRandomItem() are local, and their effect shows up in the arguments
+ * of the operations that follow (e.g. the id passed to updateItem).
+ */
+
+import { traceOperations, type TraceOptions, type TraceSink } from "../../lib/minion-benchmark";
+import type { ItemsContext } from "./types";
+
+/**
+ * Recorded operations and the Convex function each one calls.
+ */
+export const TRACED_OPERATIONS = {
+  createItem: "items:createItem",
+  createItems: "items:createItems",
+  updateItem: "items:updateItem",
+  deleteItem: "items:deleteItem",
+  fetchItems: "items:listItems",
+  fetchItemsByPriority: "items:listByPriority",
+  fetchItemsByOwner: "items:listByOwner",
+  fetchItem: "items:getItem",
+  fetchItemCount: "items:getItemCount",
+  fetchItemsPage: "items:listItemsPage",
+  fetchItemsByPriorityPage: "items:listByPriorityPage",
+  fetchItemsByOwnerPage: "items:listByOwnerPage",
+  getOrCreateUser: "users:getOrCreateUser",
+  bumpCounter: "counters:bumpCounter",
+} satisfies Partial<Record<keyof ItemsContext, string>>;
+
+export type TracedOperation = keyof typeof TRACED_OPERATIONS;
+
+export function isTracedOperation(op: string): op is TracedOperation {
+  return Object.prototype.hasOwnProperty.call(TRACED_OPERATIONS, op);
+}
+
+function isItemLike(value: unknown): value is { id: string } {
+  return typeof value === "object" && value !== null && typeof (value as { id?: unknown }).id === "string";
+}
+
+/**
+ * The part of an operation's result a trace keeps: ids for items, ids plus
+ * cursor for pages, anything else (new ids, counts) as is.
+ */
+export function summarizeItemResult(_op: string, result: unknown): unknown {
+  if (Array.isArray(result)) {
+    return result.every(isItemLike) ? { ids: result.map((item) => item.id) } : result;
+  }
+  if (isItemLike(result)) {
+    return { id: result.id };
+  }
+  if (typeof result === "object" && result !== null && "items" in result) {
+    const page = result as { items: unknown[]; cursor: string; isDone: boolean };
+    return {
+      ids: page.items.filter(isItemLike).map((item) => item.id),
+      cursor: page.cursor,
+      isDone: page.isDone,
+    };
+  }
+  return result;
+}
+
+/**
+ * Record every traced operation of an items context into a trace sink.
+ * The context is modified in place and returned.
+ */
+export function traceItemsContext<T extends ItemsContext>(
+  ctx: T,
+  sink: TraceSink,
+  options: Omit<TraceOptions, "summarize"> = {}
+): T {
+  const operations = Object.keys(TRACED_OPERATIONS) as TracedOperation[];
+  return traceOperations(ctx, operations, sink, { ...options, summarize: summarizeItemResult });
+}
@@ -0,0 +1,176 @@
+/**
+ * Items Context Transports
+ *
+ * The items context only runs queries and mutations and subscribes to
+ * queries. Each adapter maps one kind of Convex client onto that, with the
+ * same latency tracking: ConvexClient (headless workers), ConvexReactClient
+ * (the client behind the convex/react hooks) and ConvexHttpClient (no
+ * WebSocket, so subscriptions are emulated by polling).
+ */
+
+import type { ConvexClient, ConvexHttpClient } from "convex/browser";
+import type { ConvexReactClient } from "convex/react";
+import type { FunctionArgs, FunctionReference, FunctionReturnType } from "convex/server";
+import { trackConvexClient, functionNameOf, type LatencySink } from "../../lib/minion-benchmark";
+
+/**
+ * What the items context needs from a Convex client.
+ */
+export interface ItemsTransport {
+  query<Q extends FunctionReference<"query">>(
+    fn: Q,
+    args: FunctionArgs<Q>
+  ): Promise<FunctionReturnType<Q>>;
+  mutation<M extends FunctionReference<"mutation">>(
+    fn: M,
+    args: FunctionArgs<M>
+  ): Promise<FunctionReturnType<M>>;
+  /**
+   * Subscribe to a query. The callback receives every new result;
+   * call the returned function to unsubscribe.
+   */
+  subscribe<Q extends FunctionReference<"query">>(
+    fn: Q,
+    args: FunctionArgs<Q>,
+    onResult: (result: FunctionReturnType<Q>) => void
+  ): () => void;
+}
+
+export interface TransportOptions {
+  /**
+   * When given, every query, mutation and subscription is latency-tracked
+   * into it (subscriptions by their time to first result, then each later
+   * result as an "update")
+   */
+  latencySink?: LatencySink;
+  /** Stamped on every tracked record */
+  workerId?: number;
+}
+
+export interface HttpTransportOptions extends TransportOptions {
+  /** How often emulated subscriptions re-run their query (default: 1000ms) */
+  pollIntervalMs?: number;
+}
+
+function track<C extends ConvexClient | ConvexHttpClient | ConvexReactClient>(
+  client: C,
+  options: TransportOptions
+): C {
+  return options.latencySink
+    ? trackConvexClient(client, options.latencySink, { workerId: options.workerId })
+    : client;
+}
+
+/**
+ * Transport over a WebSocket ConvexClient.
+ */
+export function convexClientTransport(
+  client: ConvexClient,
+  options: TransportOptions = {}
+): ItemsTransport {
+  const tracked = track(client, options);
+  return {
+    query: (fn, args) => tracked.query(fn, args),
+    mutation: (fn, args) => tracked.mutation(fn, args),
+    subscribe: (fn, args, onResult) => tracked.onUpdate(fn, args, onResult),
+  };
+}
+
+/**
+ * Transport over the ConvexReactClient used by the React hooks
+ * (e.g. from useConvex()).
+ */
+export function reactClientTransport(
+  client: ConvexReactClient,
+  options: TransportOptions = {}
+): ItemsTransport {
+  const tracked = track(client, options);
+  const record =
+    typeof options.latencySink === "function"
+      ? options.latencySink
+      : options.latencySink?.record.bind(options.latencySink);
+
+  return {
+    query: (fn, args) => tracked.query(fn, args),
+    mutation: (fn, args) => tracked.mutation(fn, args),
+    subscribe: (fn, args, onResult) => {
+      // watchQuery isn't covered by trackConvexClient; record time to first
+      // result by hand, like useTrackedQuery, then each later result as an
+      // update timed from the previous one
+      let start = performance.now();
+      let startedAt = Date.now();
+      let first = true;
+      const watch = client.watchQuery(fn, args);
+      const deliver = () => {
+        let result: FunctionReturnType<typeof fn> | undefined;
+        let error: string | undefined;
+        try {
+          result = watch.localQueryResult();
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err);
+        }
+        if (result === undefined && error === undefined) return;
+        record?.({
+          type: first ? "query" : "update",
+          functionName: functionNameOf(fn),
+          latencyMs: Math.round(performance.now() - start),
+          success: error === undefined,
+          timestamp: startedAt,
+          error,
+          workerId: options.workerId,
+        });
+        first = false;
+        start = performance.now();
+        startedAt = Date.now();
+        if (result !== undefined) onResult(result);
+      };
+      const unsubscribe = watch.onUpdate(deliver);
+      // Already-cached results don't trigger onUpdate
+      deliver();
+      return unsubscribe;
+    },
+  };
+}
+
+/**
+ * Transport over a ConvexHttpClient. Every call is a plain HTTP round trip,
+ * and subscriptions re-run their query on an interval, delivering results
+ * that changed.
+ */
+export function httpClientTransport(
+  client: ConvexHttpClient,
+  options: HttpTransportOptions = {}
+): ItemsTransport {
+  const tracked = track(client, options);
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+
+  return {
+    query: (fn, args) => tracked.query(fn, args),
+    mutation: (fn, args) => tracked.mutation(fn, args),
+    subscribe: (fn, args, onResult) => {
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let last: string | undefined;
+      const poll = async () => {
+        try {
+          const result = await tracked.query(fn, args);
+          const serialized = JSON.stringify(result);
+          if (!stopped && serialized !== last) {
+            last = serialized;
+            onResult(result);
+          }
+        } catch {
+          // Failed polls are recorded by the tracked client; try again next interval
+        }
+        if (!stopped) {
+          timer = setTimeout(() => void poll(), pollIntervalMs);
+        }
+      };
+      void poll();
+      return () => {
+        stopped = true;
+        clearTimeout(timer);
+      };
+    },
+  };
+}
@@ -16,6 +16,26 @@ export interface Item {
   updatedAt: number;
 }
 
+/**
+ * Where a paginated read starts and how many items it returns.
+ */
+export interface PageRequest {
+  /** Cursor from the previous page; null for the first page */
+  cursor: string | null;
+  numItems: number;
+}
+
+/**
+ * One page of a paginated read.
+ */
+export interface ItemsPage {
+  items: Item[];
+  /** Pass as the next request's cursor to continue */
+  cursor: string;
+  /** True when this is the last page */
+  isDone: boolean;
+}
+
 /**
  * Items app-specific context.
  * Extends BaseMinionContext with methods to interact with the items database.
@@ -31,6 +51,8 @@ export interface ItemsContext extends BaseMinionContext {
     priority?: number;
     tags?: string[];
     projectId?: number;
+    /** User id from getOrCreateUser */
+    ownerId?: string;
   }): Promise<string>;
 
   /** Create multiple items at once (batch) */
@@ -41,6 +63,7 @@ export interface ItemsContext extends BaseMinionContext {
     priority?: number;
     tags?: string[];
     projectId?: number;
+    ownerId?: string;
   }>): Promise<string[]>;
 
   /** Update an existing item */
@@ -71,4 +94,60 @@ export interface ItemsContext extends BaseMinionContext {
 
   /** Get total item count */
   getItemCount(): number;
+
+  // ============== Server Queries ==============
+  // One-shot round trips to Convex, unlike the cache reads above
+
+  /** Fetch items with listItems (newest first) */
+  fetchItems(args?: { status?: string; projectId?: number; limit?: number }): Promise<Item[]>;
+
+  /** Fetch items with a given priority with listByPriority */
+  fetchItemsByPriority(priority: number, limit?: number): Promise<Item[]>;
+
+  /** Fetch items owned by a user with listByOwner */
+  fetchItemsByOwner(ownerId: string, limit?: number): Promise<Item[]>;
+
+  /** Fetch a single item with getItem */
+  fetchItem(id: string): Promise<Item | null>;
+
+  /**
+   * Count items with getItemCount: by status if given, otherwise the
+   * worker's project when partitioning, otherwise all items
+   */
+  fetchItemCount(status?: string): Promise<number>;
+
+  // ============== Paginated Queries ==============
+
+  /** Fetch one page of items (newest first) with listItemsPage */
+  fetchItemsPage(
+    page: PageRequest,
+    filter?: { status?: string; projectId?: number }
+  ): Promise<ItemsPage>;
+
+  /** Fetch one page of items with a given priority with listByPriorityPage */
+  fetchItemsByPriorityPage(priority: number, page: PageRequest): Promise<ItemsPage>;
+
+  /** Fetch one page of items owned by a user with listByOwnerPage */
+  fetchItemsByOwnerPage(ownerId: string, page: PageRequest): Promise<ItemsPage>;
+
+  // ============== Users ==============
+
+  /** Get or create the user with a visible id; returns the user id (usable as ownerId) */
+  getOrCreateUser(visibleId: string, name: string): Promise<string>;
+
+  // ============== Counters ==============
+
+  /** Increment a shared single-document counter; returns its new value */
+  bumpCounter(key: string): Promise<number>;
+
+  // ============== Subscriptions ==============
+
+  /**
+   * Open a listItems subscription. The callback receives every result;
+   * call the returned function to unsubscribe.
+   */
+  watchItems(
+    args: { status?: string; projectId?: number; limit?: number },
+    onItems: (items: Item[]) => void
+  ): () => void;
 }